@@ -1,9 +1,13 @@
 "use client";
 
 import React from "react";
-import type { Account } from "@/lib/types";
+import type { Account, AccountType, TaxCode } from "@/lib/types";
+import { TAX_CODE_LABELS } from "@/lib/journalEngine";
+import { accountTypeOf } from "@/lib/incomeStatement";
 import { Card, CardContent, CardHeader } from "./ui/Card";
 
+const ACCOUNT_TYPES: AccountType[] = ["asset", "liability", "equity", "income", "expense"];
+
 function makeId() {
   return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
 }
@@ -53,9 +57,12 @@ export default function AccountsPanel({
         </div>
 
         <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
-          <div className="grid grid-cols-12 bg-zinc-950/40 px-4 py-2 text-xs text-zinc-400">
-            <div className="col-span-6">Account</div>
-            <div className="col-span-3">Normal side</div>
+          <div className="grid grid-cols-12 gap-2 bg-zinc-950/40 px-4 py-2 text-xs text-zinc-400">
+            <div className="col-span-2">Account</div>
+            <div className="col-span-2">Synonyms</div>
+            <div className="col-span-1">Type</div>
+            <div className="col-span-2">Normal side</div>
+            <div className="col-span-2">Tax code</div>
             <div className="col-span-2 text-right">Opening</div>
             <div className="col-span-1 text-right"> </div>
           </div>
@@ -63,9 +70,9 @@ export default function AccountsPanel({
           {accounts.map((a) => (
             <div
               key={a.id}
-              className="grid grid-cols-12 items-center border-t border-zinc-800 px-4 py-2"
+              className="grid grid-cols-12 items-center gap-2 border-t border-zinc-800 px-4 py-2"
             >
-              <div className="col-span-6">
+              <div className="col-span-2">
                 <input
                   value={a.name}
                   onChange={(e) =>
@@ -77,7 +84,42 @@ export default function AccountsPanel({
                 />
               </div>
 
-              <div className="col-span-3">
+              <div className="col-span-2">
+                <input
+                  value={(a.synonyms ?? []).join(", ")}
+                  placeholder="e.g. advertising, ads"
+                  onChange={(e) => {
+                    // keep empty pieces while typing so "ads, " doesn't swallow the comma
+                    const synonyms = e.target.value ? e.target.value.split(",").map((x) => x.trimStart()) : [];
+                    setAccounts((prev) => prev.map((x) => (x.id === a.id ? { ...x, synonyms } : x)));
+                  }}
+                  className="w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+                />
+              </div>
+
+              <div className="col-span-1">
+                <select
+                  value={accountTypeOf(a)}
+                  onChange={(e) =>
+                    setAccounts((prev) =>
+                      prev.map((x) => (x.id === a.id ? { ...x, type: e.target.value as AccountType } : x))
+                    )
+                  }
+                  title={a.type ? undefined : "Guessed from the name"}
+                  className={[
+                    "w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-2 py-2 text-sm capitalize outline-none focus:border-zinc-700",
+                    a.type ? "" : "text-zinc-400",
+                  ].join(" ")}
+                >
+                  {ACCOUNT_TYPES.map((t) => (
+                    <option key={t} value={t}>
+                      {t}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="col-span-2">
                 <select
                   value={a.normalSide}
                   onChange={(e) =>
@@ -94,6 +136,27 @@ export default function AccountsPanel({
                 </select>
               </div>
 
+              <div className="col-span-2">
+                <select
+                  value={a.taxCode ?? ""}
+                  onChange={(e) =>
+                    setAccounts((prev) =>
+                      prev.map((x) =>
+                        x.id === a.id ? { ...x, taxCode: (e.target.value || undefined) as TaxCode | undefined } : x
+                      )
+                    )
+                  }
+                  className="w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+                >
+                  <option value="">Composer default</option>
+                  {(Object.keys(TAX_CODE_LABELS) as TaxCode[]).map((code) => (
+                    <option key={code} value={code}>
+                      {TAX_CODE_LABELS[code]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div className="col-span-2">
                 <input
                   inputMode="decimal"
@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { Contact, JournalEntry } from "@/lib/types";
+import { AGING_BUCKETS, buildAging } from "@/lib/agingEngine";
+import { SUBLEDGER_ACCOUNTS } from "@/lib/contacts";
+
+function money(n: number) {
+  return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+const ACCOUNT_LABELS: Record<string, string> = {
+  "Accounts Receivable": "Receivables (customers)",
+  "Accounts Payable": "Payables (vendors)",
+};
+
+/** Aging of A/R or A/P by counterparty; open items link back to their entries. */
+export default function AgingReport({
+  entries,
+  entityId,
+  contacts,
+  asOfISO,
+  onOpenEntry,
+}: {
+  entries: JournalEntry[];
+  entityId: string;
+  contacts: Contact[];
+  asOfISO: string;
+  onOpenEntry: (entryId: string) => void;
+}) {
+  const [account, setAccount] = useState(SUBLEDGER_ACCOUNTS[0]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const rows = useMemo(
+    () => buildAging({ entries, entityId, contacts, asOfISO, accounts: [account] }),
+    [entries, entityId, contacts, asOfISO, account]
+  );
+
+  const totals = AGING_BUCKETS.map((b) => rows.reduce((s, r) => s + r.buckets[b.id], 0));
+  const grandTotal = rows.reduce((s, r) => s + r.total, 0);
+
+  return (
+    <div className="mt-6 overflow-hidden rounded-2xl border border-zinc-800">
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-zinc-950/40 px-4 py-3">
+        <div>
+          <div className="text-sm font-medium text-zinc-100">Aging • as of {asOfISO}</div>
+          <div className="mt-0.5 text-xs text-zinc-500">Payments settle the oldest invoice first. Click a row for its items.</div>
+        </div>
+        <div className="flex gap-2">
+          {SUBLEDGER_ACCOUNTS.map((a) => (
+            <button
+              key={a}
+              type="button"
+              onClick={() => {
+                setAccount(a);
+                setExpanded(null);
+              }}
+              className={[
+                "rounded-xl border px-3 py-1.5 text-xs",
+                a === account
+                  ? "border-emerald-700 bg-emerald-900/25 text-emerald-200"
+                  : "border-zinc-800 bg-zinc-950/40 text-zinc-200 hover:border-zinc-700",
+              ].join(" ")}
+            >
+              {ACCOUNT_LABELS[a] ?? a}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-12 gap-2 bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">
+        <div className="col-span-3">Contact</div>
+        {AGING_BUCKETS.map((b) => (
+          <div key={b.id} className="col-span-1 text-right">
+            {b.label}
+          </div>
+        ))}
+        <div className="col-span-2 text-right">Unapplied</div>
+        <div className="col-span-2 text-right">Total</div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="border-t border-zinc-800 px-4 py-3 text-sm text-zinc-500">Nothing open.</div>
+      ) : (
+        rows.map((r) => {
+          const key = `${r.contactId ?? "text"}-${r.name}`;
+          const open = expanded === key;
+          return (
+            <div key={key} className="border-t border-zinc-800">
+              <button
+                type="button"
+                onClick={() => setExpanded(open ? null : key)}
+                className="grid w-full grid-cols-12 gap-2 px-4 py-2 text-left text-sm hover:bg-zinc-900/40"
+              >
+                <div className="col-span-3 min-w-0">
+                  <div dir="auto" className="truncate text-zinc-100">
+                    {r.name || "No counterparty"}
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    {r.contactId ? `Net ${r.termsDays}` : "Unassigned"} • {r.items.length} open
+                  </div>
+                </div>
+                {AGING_BUCKETS.map((b) => (
+                  <div
+                    key={b.id}
+                    className={["col-span-1 text-right", r.buckets[b.id] ? "text-zinc-200" : "text-zinc-600"].join(" ")}
+                  >
+                    {money(r.buckets[b.id])}
+                  </div>
+                ))}
+                <div className={["col-span-2 text-right", r.unapplied ? "text-amber-300" : "text-zinc-600"].join(" ")}>
+                  {money(r.unapplied)}
+                </div>
+                <div className="col-span-2 text-right font-medium text-zinc-100">{money(r.total)}</div>
+              </button>
+
+              {open ? (
+                <div className="space-y-1 bg-zinc-950/30 px-4 py-2">
+                  {r.items.map((i) => (
+                    <div key={i.entryId} className="flex items-center justify-between gap-3 text-xs">
+                      <div className="text-zinc-300">
+                        <span className="text-zinc-100">{i.dateISO}</span> • due {i.dueISO}
+                        {i.daysPastDue > 0 ? (
+                          <span className="text-amber-300"> • {i.daysPastDue} days overdue</span>
+                        ) : null}{" "}
+                        • {money(i.open)} of {money(i.amount)}
+                        {i.settledBy.length ? ` • ${i.settledBy.length} payment(s) applied` : ""}
+                      </div>
+                      <div className="flex shrink-0 gap-2">
+                        {i.settledBy.map((id, n) => (
+                          <button
+                            key={id}
+                            type="button"
+                            onClick={() => onOpenEntry(id)}
+                            className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-2 py-1 text-zinc-400 hover:border-zinc-700"
+                          >
+                            Payment {n + 1}
+                          </button>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => onOpenEntry(i.entryId)}
+                          className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-2 py-1 text-zinc-200 hover:border-zinc-700"
+                        >
+                          Open
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                  {r.unapplied ? (
+                    <div className="text-xs text-amber-300">
+                      {money(r.unapplied)} paid in advance or credited with no invoice to settle.
+                    </div>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+          );
+        })
+      )}
+
+      {rows.length ? (
+        <div className="grid grid-cols-12 gap-2 border-t border-zinc-800 bg-zinc-950/20 px-4 py-2 text-sm">
+          <div className="col-span-3 font-medium text-zinc-100">Total</div>
+          {totals.map((t, n) => (
+            <div key={AGING_BUCKETS[n].id} className="col-span-1 text-right text-zinc-200">
+              {money(t)}
+            </div>
+          ))}
+          <div className="col-span-2 text-right text-zinc-200">{money(rows.reduce((s, r) => s + r.unapplied, 0))}</div>
+          <div className="col-span-2 text-right font-medium text-zinc-100">{money(grandTotal)}</div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { AuditEvent, AuditFieldChange, AuditObjectKind, Entity, JournalLine } from "@/lib/types";
+import { Card, CardContent, CardHeader } from "./ui/Card";
+import { AUDIT_OBJECT_LABELS, DEFAULT_ACTOR, diffLines, groupAuditEvents } from "@/lib/auditLog";
+
+// newest first; older events stay in the log
+const MAX_ROWS = 200;
+
+const inputClass =
+  "mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700";
+
+const ACTION_STYLES: Record<AuditEvent["action"], string> = {
+  create: "text-emerald-300",
+  update: "text-amber-300",
+  delete: "text-rose-300",
+};
+
+// Local date and time of an event: the date filters compare on the local date, not UTC.
+function localStamp(at: string) {
+  const d = new Date(at);
+  const p = (n: number) => String(n).padStart(2, "0");
+  return {
+    date: `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())}`,
+    time: `${p(d.getHours())}:${p(d.getMinutes())}:${p(d.getSeconds())}`,
+  };
+}
+
+function show(v: unknown) {
+  if (v === undefined) return "—";
+  const s = typeof v === "string" ? v : JSON.stringify(v);
+  return s.length > 120 ? `${s.slice(0, 117)}…` : s;
+}
+
+function lineText(l: JournalLine | undefined) {
+  if (!l) return "";
+  const side = l.debit ? `Dr ${l.debit}` : `Cr ${l.credit}`;
+  return `${l.account} ${side}${l.taxCode ? ` • ${l.taxCode}` : ""}`;
+}
+
+function LinesDiff({ change }: { change: AuditFieldChange }) {
+  const rows = diffLines(change.before as JournalLine[] | undefined, change.after as JournalLine[] | undefined);
+  return (
+    <div className="overflow-hidden rounded-xl border border-zinc-800">
+      {rows.map((r) => (
+        <div key={r.index} className="grid grid-cols-12 gap-2 border-t border-zinc-800 px-3 py-1 text-xs first:border-t-0">
+          <div
+            className={[
+              "col-span-2",
+              r.status === "added"
+                ? "text-emerald-300"
+                : r.status === "removed"
+                  ? "text-rose-300"
+                  : r.status === "changed"
+                    ? "text-amber-300"
+                    : "text-zinc-500",
+            ].join(" ")}
+          >
+            Line {r.index + 1} • {r.status}
+          </div>
+          <div className="col-span-5 text-zinc-400 line-through decoration-zinc-600">
+            {r.status === "same" ? "" : lineText(r.before)}
+          </div>
+          <div className="col-span-5 text-zinc-200">
+            {lineText(r.after)}
+            {r.fields.length ? <span className="text-zinc-500"> ({r.fields.join(", ")})</span> : null}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Append-only change log of entities, charts and saved entries, with field-level diffs. */
+export default function AuditLogPanel({
+  auditLog,
+  entities,
+  actor,
+  setActor,
+}: {
+  auditLog: AuditEvent[];
+  entities: Entity[];
+  actor: string;
+  setActor: (actor: string) => void;
+}) {
+  const [object, setObject] = useState<AuditObjectKind | "">("");
+  const [entityId, setEntityId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [query, setQuery] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const entityNames = useMemo(() => new Map(entities.map((e) => [e.id, e.name])), [entities]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return groupAuditEvents(auditLog)
+      .filter(({ event: ev }) => !object || ev.object === object)
+      .filter(({ event: ev }) => !entityId || ev.entityId === entityId)
+      .filter(({ event: ev }) => {
+        const day = localStamp(ev.at).date;
+        return (!from || day >= from) && (!to || day <= to);
+      })
+      .filter(({ event: ev }) => {
+        return !q || `${ev.label} ${ev.objectId} ${ev.actor} ${ev.reason ?? ""}`.toLowerCase().includes(q);
+      })
+      .reverse();
+  }, [auditLog, object, entityId, from, to, query]);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader
+        title="Audit Trail"
+        subtitle="Every change to entities, accounts and saved entries: when, by whom, and what it looked like before."
+      />
+      <CardContent>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-6">
+          <div>
+            <label className="text-xs text-zinc-400">Object</label>
+            <select
+              value={object}
+              onChange={(e) => setObject(e.target.value as AuditObjectKind | "")}
+              className={inputClass}
+            >
+              <option value="">All</option>
+              {(Object.keys(AUDIT_OBJECT_LABELS) as AuditObjectKind[]).map((k) => (
+                <option key={k} value={k}>
+                  {AUDIT_OBJECT_LABELS[k]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-zinc-400">Entity</label>
+            <select value={entityId} onChange={(e) => setEntityId(e.target.value)} className={inputClass}>
+              <option value="">All</option>
+              {entities.map((e) => (
+                <option key={e.id} value={e.id}>
+                  {e.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-zinc-400">From</label>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-400">To</label>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-400">Search</label>
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="memo / name / id"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-400">Recorded as</label>
+            <input
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              placeholder={DEFAULT_ACTOR}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+          <div className="grid grid-cols-12 gap-2 bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">
+            <div className="col-span-3">When</div>
+            <div className="col-span-2">Who</div>
+            <div className="col-span-2">Change</div>
+            <div className="col-span-5">Object</div>
+          </div>
+
+          {filtered.length === 0 ? (
+            <div className="border-t border-zinc-800 px-4 py-3 text-sm text-zinc-500">No changes recorded.</div>
+          ) : (
+            filtered.slice(0, MAX_ROWS).map(({ event: ev, count }) => {
+              const open = expanded === ev.id;
+              const stamp = localStamp(ev.at);
+              return (
+                <div key={ev.id} className="border-t border-zinc-800">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(open ? null : ev.id)}
+                    className="grid w-full grid-cols-12 gap-2 px-4 py-2 text-left text-sm hover:bg-zinc-900/40"
+                  >
+                    <div className="col-span-3 text-zinc-300">
+                      {stamp.date} {stamp.time}
+                    </div>
+                    <div className="col-span-2 truncate text-zinc-300">{ev.actor}</div>
+                    <div className={["col-span-2", ACTION_STYLES[ev.action]].join(" ")}>
+                      {ev.action}
+                      {count > 1 ? <span className="text-xs text-zinc-500"> ×{count}</span> : null}
+                    </div>
+                    <div className="col-span-5 min-w-0">
+                      <div dir="auto" className="truncate text-zinc-100">
+                        {ev.label || ev.objectId}
+                      </div>
+                      <div className="text-xs text-zinc-500">
+                        {AUDIT_OBJECT_LABELS[ev.object]}
+                        {ev.entityId ? ` • ${entityNames.get(ev.entityId) ?? ev.entityId}` : ""} •{" "}
+                        {ev.changes.length} fields
+                      </div>
+                      {ev.reason ? (
+                        <div dir="auto" className="truncate text-xs text-amber-300">
+                          Closed-period override: {ev.reason}
+                        </div>
+                      ) : null}
+                    </div>
+                  </button>
+
+                  {open ? (
+                    <div className="space-y-2 bg-zinc-950/30 px-4 py-3">
+                      {ev.changes.map((c) => (
+                        <div key={c.field} className="text-xs">
+                          <div className="text-zinc-400">{c.field}</div>
+                          {c.field === "lines" && ev.object === "entry" ? (
+                            <div className="mt-1">
+                              <LinesDiff change={c} />
+                            </div>
+                          ) : (
+                            <div dir="auto" className="mt-0.5">
+                              <span className="text-zinc-500 line-through decoration-zinc-600">{show(c.before)}</span>{" "}
+                              → <span className="text-zinc-200">{show(c.after)}</span>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {filtered.length > MAX_ROWS ? (
+          <div className="mt-2 text-xs text-zinc-500">
+            Showing the latest {MAX_ROWS} of {filtered.length} changes. Narrow the filters to see older ones.
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
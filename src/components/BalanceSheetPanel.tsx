@@ -6,6 +6,8 @@ import { Card, CardContent, CardHeader } from "./ui/Card";
 import { computeBalances, formatBalance } from "@/lib/journalEngine";
 import { consolidateGroup, prettyBalance } from "@/lib/consolidationEngine";
 import { generateScheduledEntriesForPeriod, periodFilter } from "@/lib/schedulesEngine";
+import { isActiveEntry, postEntries } from "@/lib/corrections";
+import { lockedChanges } from "@/lib/periodClose";
 
 function money(n: number) {
   return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
@@ -64,25 +66,39 @@ export default function BalanceSheetPanel({
   entities,
   accountsByEntity,
   journalEntries,
+  setJournalEntries,
   assets,
   liabilities,
 }: {
   entities: Entity[];
   accountsByEntity: Record<string, Account[]>;
   journalEntries: JournalEntry[];
+  setJournalEntries: React.Dispatch<React.SetStateAction<JournalEntry[]>>; // the composer's, which checks period locks
   assets: Asset[];
   liabilities: Liability[];
 }) {
   const [period, setPeriod] = useState<string>(defaultPeriodYYYYMM());
   const [groupEntityId, setGroupEntityId] = useState<string>(entities[0]?.id ?? "");
 
+  // generated for the month, less the ones already posted (same memo)
   const scheduledForPeriod = useMemo(() => {
+    const posted = new Set(journalEntries.filter(isActiveEntry).map((e) => e.memo));
     return generateScheduledEntriesForPeriod({
       periodYYYYMM: period,
       assets,
       liabilities,
-    });
-  }, [period, assets, liabilities]);
+    }).filter((e) => !posted.has(e.memo));
+  }, [period, assets, liabilities, journalEntries]);
+
+  const scheduledInClosedPeriods = useMemo(
+    () => lockedChanges(entities, [], scheduledForPeriod).length,
+    [entities, scheduledForPeriod]
+  );
+
+  function postScheduled() {
+    if (!scheduledForPeriod.length) return;
+    setJournalEntries((prev) => [...prev, ...postEntries(scheduledForPeriod)]);
+  }
 
   const entriesForPeriod = useMemo(() => {
     const base = periodFilter(journalEntries, period);
@@ -150,7 +166,20 @@ export default function BalanceSheetPanel({
         {scheduledForPeriod.length ? (
           <div className="mt-4 rounded-2xl border border-zinc-800 bg-zinc-950/30 p-4">
             <div className="text-sm font-medium text-zinc-100">Scheduled entries included</div>
-            <div className="mt-1 text-xs text-zinc-400">{scheduledForPeriod.length} auto entries for {period}</div>
+            <div className="mt-1 flex flex-wrap items-center justify-between gap-3">
+              <div className="text-xs text-zinc-400">{scheduledForPeriod.length} auto entries for {period}</div>
+              <button
+                onClick={postScheduled}
+                className="rounded-xl border border-emerald-700 bg-emerald-900/30 px-3 py-1 text-xs font-medium text-emerald-200 hover:bg-emerald-900/40"
+              >
+                Post to ledger
+              </button>
+            </div>
+            {scheduledInClosedPeriods ? (
+              <div className="mt-1 text-xs text-amber-300">
+                {scheduledInClosedPeriods} fall in a closed period: posting asks to move them or for a reason.
+              </div>
+            ) : null}
             <div className="mt-3 space-y-1">
               {scheduledForPeriod.slice(0, 8).map((e) => (
                 <div key={e.id} className="text-xs text-zinc-300">
@@ -0,0 +1,228 @@
+"use client";
+
+import React from "react";
+import type { Account, BusinessUnit, CategoryRule, CategoryRuleMatch, VatTreatment } from "@/lib/types";
+import { Card, CardContent, CardHeader } from "./ui/Card";
+
+function makeId() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+function optionalNum(v: string): number | undefined {
+  if (!v.trim()) return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+const matchOptions: { value: CategoryRuleMatch; label: string; placeholder: string }[] = [
+  { value: "keyword", label: "Keyword", placeholder: "e.g. netflix" },
+  { value: "regex", label: "Regex", placeholder: "e.g. uber|careem" },
+  { value: "counterparty", label: "Counterparty", placeholder: "e.g. DEWA" },
+  { value: "amount", label: "Amount range", placeholder: "(uses min / max)" },
+];
+
+const vatOptions: { value: VatTreatment; label: string }[] = [
+  { value: "default", label: "Composer default" },
+  { value: "standard", label: "Standard rated" },
+  { value: "zero_rated", label: "Zero rated" },
+  { value: "exempt", label: "Exempt" },
+  { value: "out_of_scope", label: "Out of scope" },
+  { value: "reverse_charge", label: "Reverse charge" },
+];
+
+const inputClass =
+  "w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700";
+
+export default function CategoryRulesPanel({
+  rules,
+  setRules,
+  accounts,
+  businessUnits,
+}: {
+  rules: CategoryRule[];
+  setRules: (next: CategoryRule[]) => void;
+  accounts: Account[];
+  businessUnits: BusinessUnit[];
+}) {
+  function addRule() {
+    setRules([
+      ...rules,
+      {
+        id: makeId(),
+        match: "keyword",
+        pattern: "",
+        account: accounts[0]?.name ?? "",
+        vat: "default",
+      },
+    ]);
+  }
+
+  function updateRule(id: string, patch: Partial<CategoryRule>) {
+    setRules(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  }
+
+  function moveRule(idx: number, delta: number) {
+    const to = idx + delta;
+    if (to < 0 || to >= rules.length) return;
+    const next = rules.slice();
+    [next[idx], next[to]] = [next[to], next[idx]];
+    setRules(next);
+  }
+
+  function removeRule(id: string) {
+    setRules(rules.filter((r) => r.id !== id));
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader
+        title="Categorisation Rules"
+        subtitle="Tried top to bottom before falling back to Purchases / Expense. Reclassifying a previewed line adds a rule."
+      />
+      <CardContent>
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-xs text-zinc-400">
+            Rules only post to accounts in the chart; an optional amount range narrows any rule.
+          </div>
+          <button
+            type="button"
+            onClick={addRule}
+            className="rounded-xl border border-zinc-800 bg-zinc-900/50 px-3 py-2 text-xs text-zinc-200 hover:border-zinc-700 hover:bg-zinc-900"
+          >
+            + Add rule
+          </button>
+        </div>
+
+        <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+          <div className="grid grid-cols-12 gap-2 bg-zinc-950/40 px-4 py-2 text-xs text-zinc-400">
+            <div className="col-span-2">Match</div>
+            <div className="col-span-2">Pattern</div>
+            <div className="col-span-2">Min / Max</div>
+            <div className="col-span-2">Account</div>
+            <div className="col-span-1">BU</div>
+            <div className="col-span-2">VAT</div>
+            <div className="col-span-1 text-right"> </div>
+          </div>
+
+          {rules.map((r, idx) => (
+            <div key={r.id} className="grid grid-cols-12 items-center gap-2 border-t border-zinc-800 px-4 py-2">
+              <div className="col-span-2">
+                <select
+                  value={r.match}
+                  onChange={(e) => updateRule(r.id, { match: e.target.value as CategoryRuleMatch })}
+                  className={inputClass}
+                >
+                  {matchOptions.map((m) => (
+                    <option key={m.value} value={m.value}>
+                      {m.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="col-span-2">
+                <input
+                  value={r.pattern}
+                  disabled={r.match === "amount"}
+                  placeholder={matchOptions.find((m) => m.value === r.match)?.placeholder}
+                  onChange={(e) => updateRule(r.id, { pattern: e.target.value })}
+                  className={[inputClass, r.match === "amount" ? "opacity-40" : ""].join(" ")}
+                />
+                {r.learned ? <div className="mt-1 text-[11px] text-emerald-300">learned</div> : null}
+              </div>
+
+              <div className="col-span-2 flex gap-1">
+                <input
+                  inputMode="decimal"
+                  value={r.minAmount ?? ""}
+                  placeholder="min"
+                  onChange={(e) => updateRule(r.id, { minAmount: optionalNum(e.target.value) })}
+                  className={[inputClass, "px-2 text-right"].join(" ")}
+                />
+                <input
+                  inputMode="decimal"
+                  value={r.maxAmount ?? ""}
+                  placeholder="max"
+                  onChange={(e) => updateRule(r.id, { maxAmount: optionalNum(e.target.value) })}
+                  className={[inputClass, "px-2 text-right"].join(" ")}
+                />
+              </div>
+
+              <div className="col-span-2">
+                <select
+                  value={r.account}
+                  onChange={(e) => updateRule(r.id, { account: e.target.value })}
+                  className={inputClass}
+                >
+                  {accounts.map((a) => (
+                    <option key={a.id} value={a.name}>
+                      {a.name}
+                    </option>
+                  ))}
+                  {/* keep a rule pointing at a removed/renamed account visible */}
+                  {!accounts.some((a) => a.name === r.account) ? (
+                    <option value={r.account}>{r.account || "—"} (not in chart)</option>
+                  ) : null}
+                </select>
+              </div>
+
+              <div className="col-span-1">
+                <select
+                  value={r.businessUnitId ?? ""}
+                  onChange={(e) => updateRule(r.id, { businessUnitId: e.target.value || undefined })}
+                  className={[inputClass, "px-2"].join(" ")}
+                >
+                  <option value="">—</option>
+                  {businessUnits.map((bu) => (
+                    <option key={bu.id} value={bu.id}>
+                      {bu.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="col-span-2">
+                <select
+                  value={r.vat}
+                  onChange={(e) => updateRule(r.id, { vat: e.target.value as VatTreatment })}
+                  className={inputClass}
+                >
+                  {vatOptions.map((v) => (
+                    <option key={v.value} value={v.value}>
+                      {v.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="col-span-1 flex justify-end gap-1">
+                <button
+                  type="button"
+                  onClick={() => moveRule(idx, -1)}
+                  className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-2 py-2 text-xs text-zinc-300 hover:border-zinc-700"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeRule(r.id)}
+                  className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-2 py-2 text-xs text-zinc-300 hover:border-zinc-700"
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {rules.length === 0 ? (
+            <div className="border-t border-zinc-800 px-4 py-3 text-sm text-zinc-400">
+              No rules yet. Add one, or reclassify a previewed expense line to learn one.
+            </div>
+          ) : null}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useState } from "react";
+import type { ClarificationQuestion } from "@/lib/types";
+
+const inputClass =
+  "rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-1.5 text-sm text-zinc-100 outline-none focus:border-zinc-700";
+
+export default function ClarificationQuestions({
+  questions,
+  accountNames,
+  onAnswer,
+}: {
+  questions: ClarificationQuestion[];
+  accountNames: string[];
+  onAnswer: (q: ClarificationQuestion, value: string) => void;
+}) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  if (!questions.length) return null;
+
+  function submit(q: ClarificationQuestion) {
+    const value = (drafts[q.id] ?? "").trim();
+    if (!value) return;
+    onAnswer(q, value);
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[q.id];
+      return next;
+    });
+  }
+
+  return (
+    <div className="mt-4 rounded-2xl border border-sky-900 bg-sky-950/20 p-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-sky-200">A few questions before posting</div>
+        <div className="text-xs text-zinc-500">{questions.length} open</div>
+      </div>
+
+      <div className="mt-2 space-y-2">
+        {questions.map((q) => (
+          <form
+            key={q.id}
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit(q);
+            }}
+            className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-3 py-2"
+          >
+            <div className="text-sm text-zinc-100">{q.question}</div>
+            <div dir="auto" className="mt-0.5 text-[11px] text-zinc-500">
+              {q.segment}
+            </div>
+
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              {q.field === "amount" ? (
+                <input
+                  autoFocus
+                  inputMode="decimal"
+                  value={drafts[q.id] ?? ""}
+                  placeholder="e.g. 450 or 1.2k aed"
+                  onChange={(e) => setDrafts((prev) => ({ ...prev, [q.id]: e.target.value }))}
+                  className={[inputClass, "w-44"].join(" ")}
+                />
+              ) : (
+                <>
+                  {q.suggestions?.map((s) => (
+                    <button
+                      key={s.account}
+                      type="button"
+                      onClick={() => onAnswer(q, s.account)}
+                      className="rounded-full border border-zinc-800 bg-zinc-950/40 px-2 py-0.5 text-[11px] text-zinc-200 hover:border-zinc-700"
+                      title={`${s.via} match`}
+                    >
+                      {s.account} <span className="text-zinc-500">{Math.round(s.score * 100)}%</span>
+                    </button>
+                  ))}
+                  <select
+                    value={drafts[q.id] ?? ""}
+                    onChange={(e) => setDrafts((prev) => ({ ...prev, [q.id]: e.target.value }))}
+                    className={inputClass}
+                  >
+                    <option value="">Pick an account…</option>
+                    {accountNames.map((n) => (
+                      <option key={n} value={n}>
+                        {n}
+                      </option>
+                    ))}
+                  </select>
+                </>
+              )}
+
+              <button
+                type="submit"
+                disabled={!(drafts[q.id] ?? "").trim()}
+                className="rounded-xl border border-zinc-800 bg-zinc-900/50 px-3 py-1.5 text-xs text-zinc-200 hover:border-zinc-700 disabled:opacity-40"
+              >
+                Answer
+              </button>
+            </div>
+          </form>
+        ))}
+      </div>
+    </div>
+  );
+}
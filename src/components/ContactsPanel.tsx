@@ -0,0 +1,178 @@
+"use client";
+
+import React from "react";
+import type { Contact, ContactKind, Entity } from "@/lib/types";
+import { CONTACT_KIND_LABELS } from "@/lib/contacts";
+import { DEFAULT_PAYMENT_TERMS_DAYS } from "@/lib/agingEngine";
+import { Card, CardContent, CardHeader } from "./ui/Card";
+
+function makeId() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+const inputClass =
+  "w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700";
+
+export default function ContactsPanel({
+  contacts,
+  setContacts,
+  entities,
+}: {
+  contacts: Contact[];
+  setContacts: React.Dispatch<React.SetStateAction<Contact[]>>;
+  entities: Entity[];
+}) {
+  function addContact() {
+    setContacts((prev) => [...prev, { id: makeId(), name: "New Contact", kind: "customer" }]);
+  }
+
+  function updateContact(id: string, patch: Partial<Contact>) {
+    setContacts((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader
+        title="Contacts"
+        subtitle="Customers, vendors, employees and related entities shared by all entities. Names and aliases in your text are matched to these."
+      />
+      <CardContent>
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-xs text-zinc-400">
+            Entries keep the contact they were matched to; A/R and A/P are broken down and aged by contact in the Ledger
+            tab.
+          </div>
+          <button
+            type="button"
+            onClick={addContact}
+            className="rounded-xl border border-zinc-800 bg-zinc-900/50 px-3 py-2 text-xs text-zinc-200 hover:border-zinc-700 hover:bg-zinc-900"
+          >
+            + Add contact
+          </button>
+        </div>
+
+        <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+          <div className="grid grid-cols-12 gap-2 bg-zinc-950/40 px-4 py-2 text-xs text-zinc-400">
+            <div className="col-span-3">Name</div>
+            <div className="col-span-2">Kind</div>
+            <div className="col-span-2">Aliases</div>
+            <div className="col-span-1 text-right">Terms</div>
+            <div className="col-span-1 text-right">WHT %</div>
+            <div className="col-span-2">Group entity</div>
+            <div className="col-span-1 text-right"> </div>
+          </div>
+
+          {contacts.map((c) => (
+            <div key={c.id} className="grid grid-cols-12 items-center gap-2 border-t border-zinc-800 px-4 py-2">
+              <div className="col-span-3">
+                <input
+                  dir="auto"
+                  value={c.name}
+                  onChange={(e) => updateContact(c.id, { name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="col-span-2">
+                <select
+                  value={c.kind}
+                  onChange={(e) => {
+                    const kind = e.target.value as ContactKind;
+                    updateContact(c.id, { kind, entityId: kind === "related_entity" ? c.entityId : undefined });
+                  }}
+                  className={inputClass}
+                >
+                  {(Object.keys(CONTACT_KIND_LABELS) as ContactKind[]).map((k) => (
+                    <option key={k} value={k}>
+                      {CONTACT_KIND_LABELS[k]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="col-span-2">
+                <input
+                  dir="auto"
+                  value={(c.aliases ?? []).join(", ")}
+                  placeholder="e.g. DEWA, Dubai Electricity"
+                  onChange={(e) => {
+                    // keep empty pieces while typing so "DEWA, " doesn't swallow the comma
+                    const aliases = e.target.value ? e.target.value.split(",").map((x) => x.trimStart()) : [];
+                    updateContact(c.id, { aliases });
+                  }}
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="col-span-1">
+                <input
+                  inputMode="numeric"
+                  value={c.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS}
+                  onChange={(e) => {
+                    const n = Number(e.target.value);
+                    if (Number.isFinite(n) && n >= 0) updateContact(c.id, { paymentTermsDays: Math.round(n) });
+                  }}
+                  title="Payment terms in days"
+                  className={[inputClass, "text-right"].join(" ")}
+                />
+              </div>
+
+              <div className="col-span-1">
+                <input
+                  inputMode="decimal"
+                  value={c.withholdingRate ? Math.round(c.withholdingRate * 1000) / 10 : ""}
+                  placeholder="0"
+                  onChange={(e) => {
+                    const n = Number(e.target.value);
+                    if (Number.isFinite(n) && n >= 0 && n < 100) {
+                      updateContact(c.id, { withholdingRate: n ? n / 100 : undefined });
+                    }
+                  }}
+                  title="Withholding tax held back from payments to this vendor"
+                  className={[inputClass, "text-right"].join(" ")}
+                />
+              </div>
+
+              <div className="col-span-2">
+                {c.kind === "related_entity" ? (
+                  <select
+                    value={c.entityId ?? ""}
+                    onChange={(e) => updateContact(c.id, { entityId: e.target.value || undefined })}
+                    className={inputClass}
+                  >
+                    <option value="">—</option>
+                    {entities.map((en) => (
+                      <option key={en.id} value={en.id}>
+                        {en.name}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="px-3 text-sm text-zinc-600">—</div>
+                )}
+              </div>
+
+              <div className="col-span-1 text-right">
+                <button
+                  type="button"
+                  onClick={() => setContacts((prev) => prev.filter((x) => x.id !== c.id))}
+                  className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-2 py-2 text-xs text-zinc-300 hover:border-zinc-700"
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {contacts.length === 0 ? (
+            <div className="border-t border-zinc-800 px-4 py-3 text-sm text-zinc-400">
+              No contacts yet. Add your customers and vendors, or create them from unassigned balances in the Ledger
+              tab.
+            </div>
+          ) : null}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
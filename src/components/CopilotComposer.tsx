@@ -2,17 +2,57 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import type { Account, ActionKind, ComposerState, Currency, Entity, JournalEntry } from "@/lib/types";
+import type {
+  Account,
+  ActionKind,
+  Asset,
+  AuditEvent,
+  CategoryRule,
+  ClarificationAnswers,
+  ClarificationQuestion,
+  ComposerState,
+  Contact,
+  Currency,
+  Entity,
+  JournalEntry,
+  Liability,
+  ParseDiagnostic,
+  ParserBackendConfig,
+  TokenSpan,
+} from "@/lib/types";
 import { Card, CardContent, CardHeader } from "./ui/Card";
 
 import EntitiesPanel from "./EntitiesPanel";
 import AccountsPanel from "./AccountsPanel";
+import CategoryRulesPanel from "./CategoryRulesPanel";
 import EntryPreview from "./EntryPreview";
 import ConsolidationPreview from "./ConsolidationPreview";
 import SavedLedgerPanel from "./SavedLedgerPanel";
-
-import { generateEntriesFromText } from "@/lib/journalEngine";
-import { computeBalances, formatBalance } from "@/lib/journalEngine";
+import VatReturnPanel from "./VatReturnPanel";
+import ContactsPanel from "./ContactsPanel";
+import SubledgerPanel from "./SubledgerPanel";
+import CorporateTaxPanel from "./CorporateTaxPanel";
+import WithholdingTaxPanel from "./WithholdingTaxPanel";
+import AuditLogPanel from "./AuditLogPanel";
+import PeriodClosePanel from "./PeriodClosePanel";
+import PeriodLockModal from "./PeriodLockModal";
+import YearEndClosePanel from "./YearEndClosePanel";
+import AssetsPanel from "./AssetsPanel";
+import LiabilitiesPanel from "./LiabilitiesPanel";
+import BalanceSheetPanel from "./BalanceSheetPanel";
+import ParseDiagnostics from "./ParseDiagnostics";
+import ClarificationQuestions from "./ClarificationQuestions";
+import HighlightedTextarea from "./HighlightedTextarea";
+
+import { generateEntriesFromText, regexParser } from "@/lib/journalEngine";
+import { createOpenAIParser } from "@/lib/openAIParser";
+import { formatBalance } from "@/lib/journalEngine";
+import { learnRuleFromEdit } from "@/lib/rulesEngine";
+import { postEntries } from "@/lib/corrections";
+import { appendAudit, DEFAULT_ACTOR, diffAccountsByEntity, diffCollection } from "@/lib/auditLog";
+import type { LockedEntry } from "@/lib/periodClose";
+import { lockedChanges, overrideEntries, redirectEntries } from "@/lib/periodClose";
+import { carriedForwardBalances } from "@/lib/yearEndClose";
 
 /** -----------------------
  * LocalStorage keys
@@ -23,6 +63,10 @@ const LS = {
   journalEntries: "ac.journalEntries.v1",
   activeEntityId: "ac.activeEntityId.v1",
   composerState: "ac.composerState.v1",
+  contacts: "ac.contacts.v1",
+  auditLog: "ac.auditLog.v1",
+  assets: "ac.assets.v1",
+  liabilities: "ac.liabilities.v1",
 };
 
 function safeJSONParse<T>(s: string | null): T | null {
@@ -63,15 +107,26 @@ function defaultEntity(name: string): Entity {
 
 function defaultChart(): Account[] {
   return [
-    { id: makeId(), name: "Cash", normalSide: "debit", openingBalance: 0 },
+    { id: makeId(), name: "Cash", normalSide: "debit", openingBalance: 0, synonyms: ["صندوق", "نقد", "كاش"] },
+    { id: makeId(), name: "Bank", normalSide: "debit", openingBalance: 0, synonyms: ["بنك", "حساب بنكي"] },
     { id: makeId(), name: "Accounts Receivable", normalSide: "debit", openingBalance: 0 },
     { id: makeId(), name: "Accounts Payable", normalSide: "credit", openingBalance: 0 },
     { id: makeId(), name: "Loan Receivable", normalSide: "debit", openingBalance: 0 },
     { id: makeId(), name: "Loan Payable", normalSide: "credit", openingBalance: 0 },
-    { id: makeId(), name: "Revenue", normalSide: "credit", openingBalance: 0 },
-    { id: makeId(), name: "Purchases / Expense", normalSide: "debit", openingBalance: 0 },
+    { id: makeId(), name: "Revenue", normalSide: "credit", openingBalance: 0, synonyms: ["إيرادات", "مبيعات"] },
+    { id: makeId(), name: "Purchases / Expense", normalSide: "debit", openingBalance: 0, synonyms: ["مصروفات", "مشتريات"] },
     { id: makeId(), name: "Input VAT", normalSide: "debit", openingBalance: 0 },
     { id: makeId(), name: "Output VAT", normalSide: "credit", openingBalance: 0 },
+    { id: makeId(), name: "VAT Payable", normalSide: "credit", openingBalance: 0 },
+    { id: makeId(), name: "Corporate Tax Expense", normalSide: "debit", openingBalance: 0 },
+    { id: makeId(), name: "Corporate Tax Payable", normalSide: "credit", openingBalance: 0 },
+    { id: makeId(), name: "WHT Payable", normalSide: "credit", openingBalance: 0 },
+
+    // Equity
+    { id: makeId(), name: "Share Capital", normalSide: "credit", openingBalance: 0 },
+    { id: makeId(), name: "Owner Drawings", normalSide: "debit", openingBalance: 0 },
+    { id: makeId(), name: "Retained Earnings", normalSide: "credit", openingBalance: 0 },
+    { id: makeId(), name: "Dividends Payable", normalSide: "credit", openingBalance: 0 },
 
     // Intercompany defaults (for eliminations demo)
     { id: makeId(), name: "Intercompany Receivable", normalSide: "debit", openingBalance: 0 },
@@ -99,6 +154,17 @@ function QuickActions({
     { k: "sell", label: "Sell", hint: "e.g. sold consulting for 2000 aed" },
     { k: "lend", label: "Lend", hint: "e.g. lent 500 aed to friend" },
     { k: "borrow", label: "Borrow", hint: "e.g. borrowed 1000 aed from bank" },
+    { k: "transfer", label: "Transfer", hint: "e.g. transferred 5000 aed from Bank to Cash" },
+    { k: "contribute", label: "Owner capital", hint: "e.g. owner invested 50000 aed" },
+    { k: "draw", label: "Drawings", hint: "e.g. owner withdrew 2000 aed for personal use" },
+    { k: "declare_dividend", label: "Declare dividend", hint: "e.g. declared dividend of 10000 aed" },
+    { k: "pay_dividend", label: "Pay dividend", hint: "e.g. paid dividend of 10000 aed" },
+    { k: "sales_return", label: "Sales return", hint: "e.g. customer returned goods worth 500 aed" },
+    { k: "purchase_return", label: "Purchase refund", hint: "e.g. supplier refunded 200 aed" },
+    { k: "collect", label: "Collect", hint: "e.g. received payment from Acme 2000 aed" },
+    { k: "settle", label: "Settle", hint: "e.g. paid supplier Gulf Traders 800 aed" },
+    { k: "repay", label: "Repay loan", hint: "e.g. repaid 1000 aed to bank" },
+    { k: "collect_loan", label: "Collect loan", hint: "e.g. friend repaid me 500 aed" },
   ];
 
   return (
@@ -171,7 +237,7 @@ export default function CopilotComposer() {
   /** -----------------------
    * Core state
    * ---------------------- */
-  const [entities, setEntities] = useState<Entity[]>(() => {
+  const [entities, setEntitiesState] = useState<Entity[]>(() => {
     const saved = safeJSONParse<Entity[]>(typeof window !== "undefined" ? localStorage.getItem(LS.entities) : null);
     if (saved && saved.length) return saved;
     return [defaultEntity("Main Entity")];
@@ -182,20 +248,40 @@ export default function CopilotComposer() {
     return saved ?? "";
   });
 
-  const [accountsByEntity, setAccountsByEntity] = useState<Record<string, Account[]>>(() => {
+  const [accountsByEntity, setAccountsByEntityState] = useState<Record<string, Account[]>>(() => {
     const saved = safeJSONParse<Record<string, Account[]>>(
       typeof window !== "undefined" ? localStorage.getItem(LS.accountsByEntity) : null
     );
     return saved ?? {};
   });
 
-  const [journalEntries, setJournalEntries] = useState<JournalEntry[]>(() => {
+  const [journalEntries, setJournalEntriesState] = useState<JournalEntry[]>(() => {
     const saved = safeJSONParse<JournalEntry[]>(
       typeof window !== "undefined" ? localStorage.getItem(LS.journalEntries) : null
     );
     return saved ?? [];
   });
 
+  const [contacts, setContactsState] = useState<Contact[]>(() => {
+    const saved = safeJSONParse<Contact[]>(typeof window !== "undefined" ? localStorage.getItem(LS.contacts) : null);
+    return saved ?? [];
+  });
+
+  const [assets, setAssetsState] = useState<Asset[]>(() => {
+    const saved = safeJSONParse<Asset[]>(typeof window !== "undefined" ? localStorage.getItem(LS.assets) : null);
+    return saved ?? [];
+  });
+
+  const [liabilities, setLiabilitiesState] = useState<Liability[]>(() => {
+    const saved = safeJSONParse<Liability[]>(typeof window !== "undefined" ? localStorage.getItem(LS.liabilities) : null);
+    return saved ?? [];
+  });
+
+  const [auditLog, setAuditLog] = useState<AuditEvent[]>(() => {
+    const saved = safeJSONParse<AuditEvent[]>(typeof window !== "undefined" ? localStorage.getItem(LS.auditLog) : null);
+    return saved ?? [];
+  });
+
   const [state, setState] = useState<ComposerState>(() => {
     const saved = safeJSONParse<ComposerState>(
       typeof window !== "undefined" ? localStorage.getItem(LS.composerState) : null
@@ -214,13 +300,123 @@ export default function CopilotComposer() {
     );
   });
 
-  const [tab, setTab] = useState<"copilot" | "entities" | "consolidation" | "ledger">("copilot");
+  const [tab, setTab] = useState<"copilot" | "entities" | "consolidation" | "ledger" | "tax" | "close">("copilot");
 
   const [generatedEntries, setGeneratedEntries] = useState<JournalEntry[]>([]);
   const [lastEventsCount, setLastEventsCount] = useState(0);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const [parsing, setParsing] = useState(false);
+  const [questions, setQuestions] = useState<ClarificationQuestion[]>([]);
+  const [answers, setAnswers] = useState<ClarificationAnswers>({});
+  // spans are only drawn over the exact text they were computed for
+  const [highlight, setHighlight] = useState<{ text: string; spans: TokenSpan[] }>({ text: "", spans: [] });
 
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
 
+  /** -----------------------
+   * Audit trail: user changes to entities, charts, contacts, assets, liabilities and saved entries
+   * ---------------------- */
+  const entitiesRef = useRef(entities);
+  const accountsRef = useRef(accountsByEntity);
+  const entriesRef = useRef(journalEntries);
+  const contactsRef = useRef(contacts);
+  const assetsRef = useRef(assets);
+  const liabilitiesRef = useRef(liabilities);
+
+  function recordAudit(events: AuditEvent[]) {
+    if (events.length) setAuditLog((prev) => appendAudit(prev, events));
+  }
+
+  const auditContext = () => ({ actor: state.actor?.trim() || DEFAULT_ACTOR, at: new Date().toISOString() });
+
+  // Each applies the change to the latest value (several calls in one event chain) and logs the diff.
+  const setEntities: React.Dispatch<React.SetStateAction<Entity[]>> = (action) => {
+    const before = entitiesRef.current;
+    const after = typeof action === "function" ? action(before) : action;
+    entitiesRef.current = after;
+    setEntitiesState(after);
+    recordAudit(diffCollection("entity", before, after, (e) => ({ label: e.name, entityId: e.id }), auditContext()));
+  };
+
+  const setAccountsByEntity: React.Dispatch<React.SetStateAction<Record<string, Account[]>>> = (action) => {
+    const before = accountsRef.current;
+    const after = typeof action === "function" ? action(before) : action;
+    accountsRef.current = after;
+    setAccountsByEntityState(after);
+    recordAudit(diffAccountsByEntity(before, after, auditContext()));
+  };
+
+  // contacts are shared across entities, so their events carry no entity
+  const setContacts: React.Dispatch<React.SetStateAction<Contact[]>> = (action) => {
+    const before = contactsRef.current;
+    const after = typeof action === "function" ? action(before) : action;
+    contactsRef.current = after;
+    setContactsState(after);
+    recordAudit(diffCollection("contact", before, after, (c) => ({ label: c.name }), auditContext()));
+  };
+
+  const setAssets: React.Dispatch<React.SetStateAction<Asset[]>> = (action) => {
+    const before = assetsRef.current;
+    const after = typeof action === "function" ? action(before) : action;
+    assetsRef.current = after;
+    setAssetsState(after);
+    recordAudit(diffCollection("asset", before, after, (a) => ({ label: a.name, entityId: a.entityId }), auditContext()));
+  };
+
+  const setLiabilities: React.Dispatch<React.SetStateAction<Liability[]>> = (action) => {
+    const before = liabilitiesRef.current;
+    const after = typeof action === "function" ? action(before) : action;
+    liabilitiesRef.current = after;
+    setLiabilitiesState(after);
+    recordAudit(
+      diffCollection("liability", before, after, (l) => ({ label: l.name, entityId: l.entityId }), auditContext())
+    );
+  };
+
+  // override: the reason given for changing these entries in a closed period, kept on their audit events
+  function commitJournalEntries(after: JournalEntry[], override?: { ids: Set<string>; reason: string }) {
+    const before = entriesRef.current;
+    entriesRef.current = after;
+    setJournalEntriesState(after);
+    const events = diffCollection("entry", before, after, (e) => ({ label: e.memo, entityId: e.entityId }), auditContext());
+    recordAudit(events.map((ev) => (override?.ids.has(ev.objectId) ? { ...ev, reason: override.reason } : ev)));
+  }
+
+  /** -----------------------
+   * Period locks: entries added, changed or removed in a closed period wait for a redirect or an override
+   * ---------------------- */
+  const [pendingPosting, setPendingPosting] = useState<{
+    after: JournalEntry[];
+    locked: LockedEntry[];
+    onPosted?: () => void;
+  } | null>(null);
+
+  // Every ledger write goes through here: saves, corrections and voids, contact assignments, settlements.
+  function postToLedger(action: React.SetStateAction<JournalEntry[]>, onPosted?: () => void) {
+    const before = entriesRef.current;
+    const after = typeof action === "function" ? action(before) : action;
+    const locked = lockedChanges(entitiesRef.current, before, after);
+    if (locked.length) {
+      setPendingPosting({ after, locked, onPosted });
+      return;
+    }
+    commitJournalEntries(after);
+    onPosted?.();
+  }
+
+  function resolvePendingPosting(
+    resolve: (p: NonNullable<typeof pendingPosting>) => JournalEntry[],
+    reason?: string
+  ) {
+    if (!pendingPosting) return;
+    const ids = new Set(pendingPosting.locked.map((l) => l.entry.id));
+    commitJournalEntries(resolve(pendingPosting), reason ? { ids, reason } : undefined);
+    pendingPosting.onPosted?.();
+    setPendingPosting(null);
+  }
+
+  const setJournalEntries: React.Dispatch<React.SetStateAction<JournalEntry[]>> = (action) => postToLedger(action);
+
   /** -----------------------
    * Ensure active entity
    * ---------------------- */
@@ -249,7 +445,8 @@ export default function CopilotComposer() {
   useEffect(() => {
     if (!entities.length) return;
 
-    setAccountsByEntity((prev) => {
+    // bookkeeping, not a user change: bypasses the audit trail
+    setAccountsByEntityState((prev) => {
       let changed = false;
       const next = { ...prev };
       for (const e of entities) {
@@ -288,10 +485,38 @@ export default function CopilotComposer() {
     localStorage.setItem(LS.journalEntries, JSON.stringify(journalEntries));
   }, [journalEntries]);
 
+  // the model endpoint's API key stays in memory for this session, never in storage
   useEffect(() => {
-    localStorage.setItem(LS.composerState, JSON.stringify(state));
+    const parser = state.parser?.kind === "openai" ? { ...state.parser, apiKey: undefined } : state.parser;
+    localStorage.setItem(LS.composerState, JSON.stringify({ ...state, parser }));
   }, [state]);
 
+  useEffect(() => {
+    localStorage.setItem(LS.contacts, JSON.stringify(contacts));
+  }, [contacts]);
+
+  useEffect(() => {
+    localStorage.setItem(LS.assets, JSON.stringify(assets));
+  }, [assets]);
+
+  useEffect(() => {
+    localStorage.setItem(LS.liabilities, JSON.stringify(liabilities));
+  }, [liabilities]);
+
+  useEffect(() => {
+    localStorage.setItem(LS.auditLog, JSON.stringify(auditLog));
+  }, [auditLog]);
+
+  // keeps the audited setters' view current, including the unaudited chart setup above
+  useEffect(() => {
+    entitiesRef.current = entities;
+    accountsRef.current = accountsByEntity;
+    entriesRef.current = journalEntries;
+    contactsRef.current = contacts;
+    assetsRef.current = assets;
+    liabilitiesRef.current = liabilities;
+  }, [entities, accountsByEntity, journalEntries, contacts, assets, liabilities]);
+
   /** -----------------------
    * Derived
    * ---------------------- */
@@ -310,15 +535,44 @@ export default function CopilotComposer() {
     [activeAccounts]
   );
 
+  const accountTaxCodes = useMemo(
+    () => Object.fromEntries(activeAccounts.flatMap((a) => (a.taxCode ? [[a.name, a.taxCode] as const] : []))),
+    [activeAccounts]
+  );
+
+  const accountSynonyms = useMemo(
+    () => Object.fromEntries(activeAccounts.map((a) => [a.name, (a.synonyms ?? []).filter((s) => s.trim())])),
+    [activeAccounts]
+  );
+
+  const activeCashAccount = activeEntity?.defaultCashAccount || "Cash";
+
+  const activeRules = useMemo(() => activeEntity?.categoryRules ?? [], [activeEntity]);
+
+  const parserConfig = useMemo<ParserBackendConfig>(() => state.parser ?? { kind: "regex" }, [state.parser]);
+
+  const parser = useMemo(
+    () =>
+      parserConfig.kind === "openai" && parserConfig.baseUrl.trim() && parserConfig.model.trim()
+        ? createOpenAIParser({ baseUrl: parserConfig.baseUrl, model: parserConfig.model, apiKey: parserConfig.apiKey })
+        : regexParser,
+    [parserConfig]
+  );
+
   const savedForActiveEntity = useMemo(
     () => journalEntries.filter((e) => e.entityId === activeEntityId),
     [journalEntries, activeEntityId]
   );
 
+  // carried forward from the last year-end close, so retained earnings include closed years
   const quickImpact = useMemo(() => {
-    const { opening, closing } = computeBalances(activeAccounts, savedForActiveEntity);
+    const { opening, closing } = carriedForwardBalances({
+      entity: activeEntity ?? undefined,
+      accounts: activeAccounts,
+      entries: savedForActiveEntity,
+    });
     return { opening, closing };
-  }, [activeAccounts, savedForActiveEntity]);
+  }, [activeEntity, activeAccounts, savedForActiveEntity]);
 
   /** -----------------------
    * Helpers to satisfy TS types
@@ -331,6 +585,16 @@ export default function CopilotComposer() {
     });
   };
 
+  // rules live on the entity, so they persist with it
+  const setRulesForActiveEntity = (next: CategoryRule[]) => {
+    setEntities((prev) => prev.map((e) => (e.id === activeEntityId ? { ...e, categoryRules: next } : e)));
+  };
+
+  function learnFromReclassification(before: JournalEntry, after: JournalEntry) {
+    const next = learnRuleFromEdit(before, after, activeRules);
+    if (next) setRulesForActiveEntity(next);
+  }
+
   /** -----------------------
    * Actions
    * ---------------------- */
@@ -341,6 +605,17 @@ export default function CopilotComposer() {
       sell: "sold consulting for 2000 aed",
       lend: "lent 500 aed to friend",
       borrow: "borrowed 10000 aed from bank",
+      transfer: "transferred 5000 aed from Bank to Cash",
+      contribute: "owner invested 50000 aed",
+      draw: "owner withdrew 2000 aed for personal use",
+      declare_dividend: "declared dividend of 10000 aed",
+      pay_dividend: "paid dividend of 10000 aed",
+      sales_return: "customer returned goods worth 500 aed",
+      purchase_return: "supplier refunded 200 aed",
+      collect: "received payment of 2000 aed from Acme",
+      settle: "paid supplier Gulf Traders 800 aed",
+      repay: "repaid 1000 aed to bank",
+      collect_loan: "friend repaid me 500 aed",
     };
 
     const t = templates[k];
@@ -352,41 +627,160 @@ export default function CopilotComposer() {
     requestAnimationFrame(() => textareaRef.current?.focus());
   }
 
-  function generatePreview() {
-    const text = state.text.trim();
-    if (!text) {
+  function clearPreview() {
+    setGeneratedEntries([]);
+    setLastEventsCount(0);
+    setDiagnostics([]);
+    setQuestions([]);
+    setAnswers({});
+  }
+
+  // Only the latest request may update the preview: a slower earlier one (debounced
+  // typing, an answer, a model call) would otherwise overwrite newer results.
+  const previewSeqRef = useRef(0);
+  const highlightSeqRef = useRef(0);
+
+  async function runPreview(withAnswers: ClarificationAnswers) {
+    const seq = ++previewSeqRef.current;
+    const text = state.text; // untrimmed: highlight offsets point into the textarea
+    if (!text.trim()) {
+      clearPreview();
+      setParsing(false);
+      return;
+    }
+
+    setParsing(true);
+    // caught here rather than try/finally, which the React Compiler does not handle
+    let result: Awaited<ReturnType<typeof generateEntriesFromText>> | null = null;
+    let failure = "";
+    try {
+      result = await generateEntriesFromText(
+        text,
+        {
+          currency: state.currency,
+          vatEnabled: state.vatEnabled,
+          vatRate: state.vatRate,
+          vatInclusive: state.vatInclusive,
+          useARAP: state.useARAP,
+        },
+        {
+          allowedAccounts: allowedAccountNames,
+          accountSynonyms,
+          accountTaxCodes,
+          cashAccount: activeCashAccount,
+          entityId: activeEntityId,
+          businessUnitId: state.businessUnitId,
+          rules: activeRules,
+          parser,
+          answers: withAnswers,
+          contacts,
+        }
+      );
+    } catch (err) {
+      failure = err instanceof Error ? err.message : String(err);
+    }
+    if (seq !== previewSeqRef.current) return;
+    setParsing(false);
+
+    if (!result) {
       setGeneratedEntries([]);
       setLastEventsCount(0);
+      setQuestions([]);
+      setDiagnostics([
+        {
+          segment: text.trim(),
+          status: "skipped",
+          reasons: ["parser_unavailable"],
+          message: `Preview failed (${failure}). Nothing was parsed.`,
+          explicit: [],
+          inferred: [],
+          confidence: 0,
+        },
+      ]);
       return;
     }
 
-    const { events, entries } = generateEntriesFromText(
-      text,
-      {
-        currency: state.currency,
-        vatEnabled: state.vatEnabled,
-        vatRate: state.vatRate,
-        vatInclusive: state.vatInclusive,
-        useARAP: state.useARAP,
-      },
-      { allowedAccounts: allowedAccountNames }
-    );
+    const { events, entries, diagnostics, questions, spans } = result;
+    setGeneratedEntries(entries);
+    setLastEventsCount(events.length);
+    setDiagnostics(diagnostics);
+    setQuestions(questions);
+    // backends without offsets keep the live highlighting from the built-in rules
+    if (spans.length || parser.id === regexParser.id) setHighlight({ text, spans });
+  }
 
-    const patched = entries.map((e) => ({
-      ...e,
-      entityId: activeEntityId,
-      businessUnitId: state.businessUnitId,
-    }));
+  async function highlightOnly() {
+    const seq = ++highlightSeqRef.current;
+    const text = state.text;
+    const segments = await regexParser.parse(text, {
+      today: new Date(),
+      currency: state.currency,
+      allowedAccounts: allowedAccountNames,
+    });
+    if (seq === highlightSeqRef.current) setHighlight({ text, spans: segments.flatMap((s) => s.spans ?? []) });
+  }
 
-    setGeneratedEntries(patched);
-    setLastEventsCount(events.length);
+  // Live preview shortly after typing stops. A model backend is only called from
+  // "Generate Entries"; while typing, the built-in rules drive the highlighting.
+  const livePreviewRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    livePreviewRef.current = () => void (parser.id === regexParser.id ? runPreview(answers) : highlightOnly());
+  });
+  useEffect(() => {
+    const handle = window.setTimeout(() => livePreviewRef.current(), 400);
+    return () => window.clearTimeout(handle);
+  }, [state.text]);
+
+  function generatePreview() {
+    void runPreview(answers);
+  }
+
+  // Answers are merged into the parsed events, so re-run rather than patch the preview.
+  function answerQuestion(q: ClarificationQuestion, value: string) {
+    const next = { ...answers, [q.id]: value };
+    setAnswers(next);
+    void runPreview(next);
+  }
+
+  // "Did you mean ...": repost the fallback line and learn the wording for next time.
+  function applySuggestion(d: ParseDiagnostic, account: string) {
+    const before = generatedEntries.find((e) => e.id === d.entryId);
+    const fallback = before?.source?.account;
+    if (!before || !fallback) return;
+
+    const after: JournalEntry = {
+      ...before,
+      lines: before.lines.map((l) => (l.account === fallback ? { ...l, account } : l)),
+      source: { ...before.source!, account },
+    };
+    learnFromReclassification(before, after);
+    setGeneratedEntries((prev) => prev.map((e) => (e.id === after.id ? after : e)));
+    setQuestions((prev) => prev.filter((q) => !(q.field === "category" && q.segment === d.segment)));
+    setDiagnostics((prev) =>
+      prev.map((x) => {
+        if (x !== d) return x;
+        const reasons = x.reasons.filter((r) => r !== "fallback_category");
+        return {
+          ...x,
+          status: reasons.length ? "warning" : "ok",
+          reasons,
+          message: `Posted to ${account}.`,
+          fallbackAccount: undefined,
+          suggestions: undefined,
+        };
+      })
+    );
   }
 
   function saveGeneratedToLedger() {
     if (!generatedEntries.length) return;
-    setJournalEntries((prev) => [...prev, ...generatedEntries]);
-    setGeneratedEntries([]);
-    setState((s) => ({ ...s, text: "" }));
+    postToLedger(
+      (prev) => [...prev, ...postEntries(generatedEntries)],
+      () => {
+        clearPreview();
+        setState((s) => ({ ...s, text: "" }));
+      }
+    );
   }
 
   /** -----------------------
@@ -403,6 +797,8 @@ export default function CopilotComposer() {
               ["entities", "Entities"],
               ["consolidation", "Consolidation"],
               ["ledger", "Ledger"],
+              ["tax", "Tax"],
+              ["close", "Close"],
             ] as const
           ).map(([k, label]) => (
             <button
@@ -452,16 +848,17 @@ export default function CopilotComposer() {
               <div className="grid grid-cols-1 gap-4 md:grid-cols-12">
                 <div className="md:col-span-8">
                   <label className="text-xs text-zinc-400">Command</label>
-                  <textarea
-                    ref={textareaRef}
+                  <HighlightedTextarea
+                    textareaRef={textareaRef}
                     value={state.text}
-                    onChange={(e) => setState((s) => ({ ...s, text: e.target.value }))}
+                    onChange={(text) => setState((s) => ({ ...s, text }))}
+                    spans={highlight.text === state.text ? highlight.spans : []}
                     placeholder={`Examples:
 - spent 120 aed on marketing
 - bought printer for 600 aed
 - sold services for 2000 aed
-- borrowed 10000 aed from bank`}
-                    className="mt-2 min-h-35 w-full resize-none rounded-2xl border border-zinc-800 bg-zinc-950/40 px-4 py-3 text-sm text-zinc-100 outline-none placeholder:text-zinc-600 focus:border-zinc-700"
+- borrowed 10000 aed from bank
+- دفعت 500 درهم إيجار`}
                   />
 
                   <QuickActions visible={true} onPick={applyActionTemplate} />
@@ -469,9 +866,10 @@ export default function CopilotComposer() {
                   <div className="mt-4 flex flex-wrap items-center gap-2">
                     <button
                       onClick={generatePreview}
+                      disabled={parsing}
                       className="rounded-xl border border-zinc-800 bg-zinc-900/50 px-4 py-2 text-xs text-zinc-200 hover:border-zinc-700"
                     >
-                      Generate Entries
+                      {parsing ? "Parsing…" : "Generate Entries"}
                     </button>
 
                     <button
@@ -488,10 +886,7 @@ export default function CopilotComposer() {
                     </button>
 
                     <button
-                      onClick={() => {
-                        setGeneratedEntries([]);
-                        setLastEventsCount(0);
-                      }}
+                      onClick={clearPreview}
                       className="rounded-xl border border-zinc-800 bg-zinc-950/30 px-4 py-2 text-xs text-zinc-300 hover:border-zinc-700"
                     >
                       Clear Preview
@@ -501,6 +896,14 @@ export default function CopilotComposer() {
                       Parsed events: <span className="text-zinc-300">{lastEventsCount}</span>
                     </div>
                   </div>
+
+                  <ClarificationQuestions
+                    questions={questions}
+                    accountNames={allowedAccountNames}
+                    onAnswer={answerQuestion}
+                  />
+
+                  <ParseDiagnostics diagnostics={diagnostics} onPickSuggestion={applySuggestion} />
                 </div>
 
                 <div className="md:col-span-4 space-y-4">
@@ -523,6 +926,75 @@ export default function CopilotComposer() {
                         </select>
                       </div>
 
+                      <div>
+                        <label className="text-xs text-zinc-400">Cash / bank account</label>
+                        <select
+                          value={activeCashAccount}
+                          onChange={(e) => {
+                            const name = e.target.value;
+                            setEntities((prev) =>
+                              prev.map((x) => (x.id === activeEntityId ? { ...x, defaultCashAccount: name } : x))
+                            );
+                          }}
+                          className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+                        >
+                          {activeAccounts
+                            .filter((a) => a.normalSide === "debit")
+                            .map((a) => (
+                              <option key={a.id} value={a.name}>
+                                {a.name}
+                              </option>
+                            ))}
+                          {/* keep the saved choice visible even if renamed/removed */}
+                          {!activeAccounts.some((a) => a.name === activeCashAccount) ? (
+                            <option value={activeCashAccount}>{activeCashAccount}</option>
+                          ) : null}
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="text-xs text-zinc-400">Parser</label>
+                        <select
+                          value={parserConfig.kind}
+                          onChange={(e) =>
+                            setState((s) => ({
+                              ...s,
+                              parser:
+                                e.target.value === "openai"
+                                  ? { kind: "openai", baseUrl: "http://localhost:8080/v1", model: "local-model" }
+                                  : { kind: "regex" },
+                            }))
+                          }
+                          className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+                        >
+                          <option value="regex">{regexParser.label}</option>
+                          <option value="openai">OpenAI-compatible endpoint</option>
+                        </select>
+
+                        {parserConfig.kind === "openai" ? (
+                          <div className="mt-2 grid grid-cols-1 gap-2">
+                            {(
+                              [
+                                ["baseUrl", "Base URL (…/v1)"],
+                                ["model", "Model"],
+                                ["apiKey", "API key (optional, not saved; re-enter after reload)"],
+                              ] as const
+                            ).map(([key, placeholder]) => (
+                              <input
+                                key={key}
+                                type={key === "apiKey" ? "password" : "text"}
+                                value={parserConfig[key] ?? ""}
+                                placeholder={placeholder}
+                                onChange={(e) =>
+                                  setState((s) => ({ ...s, parser: { ...parserConfig, [key]: e.target.value } }))
+                                }
+                                className="w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+                              />
+                            ))}
+                          </div>
+                        ) : null}
+                      </div>
+
                       <label className="flex items-center gap-2 text-sm text-zinc-200">
                         <input
                           type="checkbox"
@@ -582,7 +1054,14 @@ export default function CopilotComposer() {
                     </div>
                   </div>
 
-                  <BalanceMini title="Saved Impact (All-time, active entity)" balances={quickImpact.closing} />
+                  <BalanceMini
+                    title={
+                      activeEntity?.yearEndCloses?.length
+                        ? "Saved Impact (since the last year-end close, active entity)"
+                        : "Saved Impact (All-time, active entity)"
+                    }
+                    balances={quickImpact.closing}
+                  />
                 </div>
               </div>
             </CardContent>
@@ -590,10 +1069,20 @@ export default function CopilotComposer() {
 
           <AccountsPanel accounts={activeAccounts} setAccounts={setAccountsForActiveEntity} />
 
+          <CategoryRulesPanel
+            rules={activeRules}
+            setRules={setRulesForActiveEntity}
+            accounts={activeAccounts}
+            businessUnits={activeEntity?.businessUnits ?? []}
+          />
+
           <EntryPreview
             accounts={activeAccounts}
             entries={generatedEntries}
+            contacts={contacts}
+            vatRate={state.vatRate}
             onChangeEntries={setGeneratedEntries}
+            onReclassify={learnFromReclassification}
           />
         </>
       ) : null}
@@ -611,6 +1100,15 @@ export default function CopilotComposer() {
           />
 
           <AccountsPanel accounts={activeAccounts} setAccounts={setAccountsForActiveEntity} />
+
+          <CategoryRulesPanel
+            rules={activeRules}
+            setRules={setRulesForActiveEntity}
+            accounts={activeAccounts}
+            businessUnits={activeEntity?.businessUnits ?? []}
+          />
+
+          <ContactsPanel contacts={contacts} setContacts={setContacts} entities={entities} />
         </>
       ) : null}
 
@@ -636,9 +1134,115 @@ export default function CopilotComposer() {
             accountsByEntity={accountsByEntity}
             journalEntries={journalEntries}
             setJournalEntries={setJournalEntries}
+            contacts={contacts}
+            vatRate={state.vatRate}
+          />
+
+          <SubledgerPanel
+            activeEntityId={activeEntityId}
+            contacts={contacts}
+            setContacts={setContacts}
+            journalEntries={journalEntries}
+            setJournalEntries={setJournalEntries}
+          />
+
+          <AuditLogPanel
+            auditLog={auditLog}
+            entities={entities}
+            actor={state.actor ?? ""}
+            setActor={(actor) => setState((s) => ({ ...s, actor: actor || undefined }))}
           />
         </>
       ) : null}
+
+      {tab === "tax" ? (
+        <>
+          <VatReturnPanel
+            entities={entities}
+            activeEntityId={activeEntityId}
+            setActiveEntityId={(id) => {
+              setActiveEntityId(id);
+              setState((s) => ({ ...s, entityId: id, businessUnitId: undefined }));
+            }}
+            accountsByEntity={accountsByEntity}
+            journalEntries={journalEntries}
+            setJournalEntries={setJournalEntries}
+            contacts={contacts}
+            vatRate={state.vatRate}
+          />
+
+          <CorporateTaxPanel
+            entity={activeEntity}
+            setEntities={setEntities}
+            accounts={activeAccounts}
+            journalEntries={journalEntries}
+            setJournalEntries={setJournalEntries}
+          />
+
+          <WithholdingTaxPanel
+            entity={activeEntity}
+            accounts={activeAccounts}
+            contacts={contacts}
+            journalEntries={journalEntries}
+            setJournalEntries={setJournalEntries}
+          />
+        </>
+      ) : null}
+
+      {tab === "close" ? (
+        <>
+          <PeriodClosePanel
+            entities={entities}
+            setEntities={setEntities}
+            activeEntityId={activeEntityId}
+            setActiveEntityId={(id) => {
+              setActiveEntityId(id);
+              setState((s) => ({ ...s, entityId: id, businessUnitId: undefined }));
+            }}
+            journalEntries={journalEntries}
+            contacts={contacts}
+            actor={state.actor?.trim() || DEFAULT_ACTOR}
+          />
+
+          <YearEndClosePanel
+            entity={activeEntity}
+            setEntities={setEntities}
+            accounts={activeAccounts}
+            journalEntries={journalEntries}
+            setJournalEntries={setJournalEntries}
+            actor={state.actor?.trim() || DEFAULT_ACTOR}
+          />
+
+          <AssetsPanel entities={entities} assets={assets} setAssets={setAssets} activeEntityId={activeEntityId} />
+
+          <LiabilitiesPanel
+            entities={entities}
+            liabilities={liabilities}
+            setLiabilities={setLiabilities}
+            activeEntityId={activeEntityId}
+          />
+
+          {/* scheduled depreciation and loan postings go through postToLedger, so closed periods are checked */}
+          <BalanceSheetPanel
+            entities={entities}
+            accountsByEntity={accountsByEntity}
+            journalEntries={journalEntries}
+            setJournalEntries={setJournalEntries}
+            assets={assets}
+            liabilities={liabilities}
+          />
+        </>
+      ) : null}
+
+      {pendingPosting ? (
+        <PeriodLockModal
+          locked={pendingPosting.locked}
+          entities={entities}
+          onRedirect={() => resolvePendingPosting((p) => redirectEntries(p.after, p.locked))}
+          onOverride={(reason) => resolvePendingPosting((p) => overrideEntries(p.after, p.locked, reason), reason)}
+          onCancel={() => setPendingPosting(null)}
+        />
+      ) : null}
     </div>
   );
 }
\ No newline at end of file
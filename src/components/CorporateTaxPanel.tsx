@@ -0,0 +1,313 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type {
+  Account,
+  CorporateTaxAdjustment,
+  CorporateTaxAdjustmentKind,
+  CorporateTaxPolicy,
+  Entity,
+  JournalEntry,
+} from "@/lib/types";
+import { Card, CardContent, CardHeader } from "./ui/Card";
+import { accountTypeOf } from "@/lib/incomeStatement";
+import { isActiveEntry, postEntries } from "@/lib/corrections";
+import {
+  buildCorporateTaxProvisionEntry,
+  computeCorporateTax,
+  corporateTaxProvisionMemo,
+  CT_EXPENSE_ACCOUNT,
+  CT_PAYABLE_ACCOUNT,
+  CT_RATE,
+  CT_THRESHOLD,
+  DEFAULT_CORPORATE_TAX_POLICY,
+  SBR_REVENUE_LIMIT,
+} from "@/lib/corporateTaxEngine";
+
+function money(n: number) {
+  return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function makeId() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+function currentYear() {
+  const y = new Date().getFullYear();
+  return { from: `${y}-01-01`, to: `${y}-12-31` };
+}
+
+const inputClass =
+  "w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700";
+
+function Row({ label, value, strong }: { label: string; value: number; strong?: boolean }) {
+  return (
+    <div className="grid grid-cols-12 border-t border-zinc-800 px-4 py-2 text-sm">
+      <div className={["col-span-8", strong ? "font-medium text-zinc-100" : "text-zinc-200"].join(" ")}>{label}</div>
+      <div className={["col-span-4 text-right", strong ? "font-medium text-zinc-100" : "text-zinc-200"].join(" ")}>
+        {money(value)}
+      </div>
+    </div>
+  );
+}
+
+export default function CorporateTaxPanel({
+  entity,
+  setEntities,
+  accounts,
+  journalEntries,
+  setJournalEntries,
+}: {
+  entity: Entity | null;
+  setEntities: React.Dispatch<React.SetStateAction<Entity[]>>;
+  accounts: Account[];
+  journalEntries: JournalEntry[];
+  setJournalEntries: React.Dispatch<React.SetStateAction<JournalEntry[]>>;
+}) {
+  const [range, setRange] = useState(currentYear);
+
+  const result = useMemo(() => {
+    if (!entity) return null;
+    return computeCorporateTax({ entity, accounts, entries: journalEntries, fromISO: range.from, toISO: range.to });
+  }, [entity, accounts, journalEntries, range]);
+
+  const profitAndLossAccounts = useMemo(
+    () =>
+      accounts
+        .filter((a) => {
+          const t = accountTypeOf(a);
+          return (t === "income" || t === "expense") && a.name !== CT_EXPENSE_ACCOUNT;
+        })
+        .map((a) => a.name),
+    [accounts]
+  );
+
+  if (!entity || !result) return null;
+
+  const policy = entity.policy.corporateTax ?? DEFAULT_CORPORATE_TAX_POLICY;
+  const hasAccounts = [CT_EXPENSE_ACCOUNT, CT_PAYABLE_ACCOUNT].every((n) => accounts.some((a) => a.name === n));
+  const alreadyPosted = journalEntries.some(
+    (e) =>
+      e.entityId === entity.id &&
+      isActiveEntry(e) &&
+      e.memo === corporateTaxProvisionMemo({ fromISO: range.from, toISO: range.to })
+  );
+
+  function setPolicy(patch: Partial<CorporateTaxPolicy>) {
+    if (!entity) return;
+    setEntities((prev) =>
+      prev.map((e) => {
+        if (e.id !== entity.id) return e;
+        const corporateTax = { ...(e.policy.corporateTax ?? DEFAULT_CORPORATE_TAX_POLICY), ...patch };
+        return { ...e, policy: { ...e.policy, corporateTax } };
+      })
+    );
+  }
+
+  function updateAdjustment(id: string, patch: Partial<CorporateTaxAdjustment>) {
+    setPolicy({ adjustments: policy.adjustments.map((a) => (a.id === id ? { ...a, ...patch } : a)) });
+  }
+
+  function postProvision() {
+    if (!entity || !result) return;
+    const entry = buildCorporateTaxProvisionEntry(result, entity);
+    if (!entry) return;
+    setJournalEntries((prev) => [...prev, ...postEntries([entry])]);
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader
+        title="Corporate Tax"
+        subtitle={`Current tax for ${entity.name}: ${CT_RATE * 100}% of taxable income above AED ${CT_THRESHOLD.toLocaleString()}.`}
+      />
+      <CardContent>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <div>
+            <label className="text-xs text-zinc-400">From</label>
+            <input
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))}
+              className={["mt-2", inputClass].join(" ")}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-400">To</label>
+            <input
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))}
+              className={["mt-2", inputClass].join(" ")}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="text-xs text-zinc-400">Small business relief</label>
+            <label className="mt-3 flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={policy.smallBusinessRelief}
+                onChange={(e) => setPolicy({ smallBusinessRelief: e.target.checked })}
+              />
+              Elect relief (revenue up to AED {SBR_REVENUE_LIMIT.toLocaleString()})
+            </label>
+          </div>
+        </div>
+
+        <div className="mt-4 rounded-2xl border border-zinc-800 bg-zinc-950/30 p-4">
+          <div className="flex items-center justify-between">
+            <div className="text-xs text-zinc-400">Adjustments to accounting profit</div>
+            <button
+              type="button"
+              onClick={() =>
+                setPolicy({
+                  adjustments: [...policy.adjustments, { id: makeId(), kind: "non_deductible", pct: 100 }],
+                })
+              }
+              className="rounded-xl border border-zinc-800 bg-zinc-900/50 px-3 py-2 text-xs text-zinc-200 hover:border-zinc-700"
+            >
+              + Add adjustment
+            </button>
+          </div>
+
+          {policy.adjustments.length === 0 ? (
+            <div className="mt-3 text-sm text-zinc-500">
+              None. Add non-deductible expenses (e.g. 50% of entertainment, fines) or exempt income (e.g. dividends).
+            </div>
+          ) : (
+            <div className="mt-3 space-y-2">
+              {policy.adjustments.map((a) => (
+                <div key={a.id} className="grid grid-cols-12 items-center gap-2">
+                  <select
+                    value={a.kind}
+                    onChange={(e) => updateAdjustment(a.id, { kind: e.target.value as CorporateTaxAdjustmentKind })}
+                    className={["col-span-3", inputClass].join(" ")}
+                  >
+                    <option value="non_deductible">Non-deductible expense</option>
+                    <option value="exempt_income">Exempt income</option>
+                  </select>
+                  <select
+                    value={a.account ?? ""}
+                    onChange={(e) => updateAdjustment(a.id, { account: e.target.value || undefined })}
+                    className={["col-span-3", inputClass].join(" ")}
+                  >
+                    <option value="">Fixed amount</option>
+                    {profitAndLossAccounts.map((n) => (
+                      <option key={n} value={n}>
+                        {n}
+                      </option>
+                    ))}
+                  </select>
+                  {a.account ? (
+                    <input
+                      inputMode="decimal"
+                      value={a.pct}
+                      onChange={(e) => {
+                        const n = Number(e.target.value);
+                        updateAdjustment(a.id, { pct: Number.isFinite(n) ? Math.max(0, Math.min(100, n)) : a.pct });
+                      }}
+                      title="Percent of the account's movement"
+                      className={["col-span-2 text-right", inputClass].join(" ")}
+                    />
+                  ) : (
+                    <input
+                      inputMode="decimal"
+                      value={a.amount ?? 0}
+                      onChange={(e) => {
+                        const n = Number(e.target.value);
+                        updateAdjustment(a.id, { amount: Number.isFinite(n) ? n : a.amount });
+                      }}
+                      title="Amount"
+                      className={["col-span-2 text-right", inputClass].join(" ")}
+                    />
+                  )}
+                  <input
+                    value={a.note ?? ""}
+                    placeholder="note"
+                    onChange={(e) => updateAdjustment(a.id, { note: e.target.value || undefined })}
+                    className={["col-span-3", inputClass].join(" ")}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setPolicy({ adjustments: policy.adjustments.filter((x) => x.id !== a.id) })}
+                    className="col-span-1 rounded-xl border border-zinc-800 bg-zinc-950/40 px-2 py-2 text-xs text-zinc-300 hover:border-zinc-700"
+                    title="Remove"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+          <div className="flex items-center justify-between bg-zinc-950/40 px-4 py-3">
+            <div className="text-sm font-medium text-zinc-100">Tax computation</div>
+            <div className="text-xs text-zinc-400">{entity.policy.functionalCurrency}</div>
+          </div>
+          <Row label="Revenue" value={result.statement.revenue} />
+          <Row label="Expenses" value={result.statement.expenses} />
+          <Row label="Accounting profit" value={result.accountingProfit} strong />
+          {result.adjustments.map((a) => (
+            <Row key={a.adjustment.id} label={a.label} value={a.amount} />
+          ))}
+          <Row label="Taxable income" value={result.taxableIncome} strong />
+          {result.reliefApplied ? (
+            <div className="border-t border-zinc-800 px-4 py-2 text-sm text-emerald-300">
+              Small business relief: taxable income treated as nil.
+            </div>
+          ) : (
+            <Row
+              label={`Taxed at ${CT_RATE * 100}% above ${money(CT_THRESHOLD)}`}
+              value={Math.max(0, result.taxableIncome - CT_THRESHOLD)}
+            />
+          )}
+          <Row label="Corporate tax payable" value={result.taxPayable} strong />
+        </div>
+
+        {result.byBusinessUnit.length > 1 ? (
+          <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+            <div className="grid grid-cols-12 bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">
+              <div className="col-span-6">Business unit</div>
+              <div className="col-span-3 text-right">Profit</div>
+              <div className="col-span-3 text-right">Tax share</div>
+            </div>
+            {result.byBusinessUnit.map((u) => (
+              <div key={u.businessUnitId} className="grid grid-cols-12 border-t border-zinc-800 px-4 py-2 text-sm">
+                <div className="col-span-6 text-zinc-100">{u.name}</div>
+                <div className="col-span-3 text-right text-zinc-200">{money(u.profit)}</div>
+                <div className="col-span-3 text-right text-zinc-200">{money(u.taxShare)}</div>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        {result.warnings.length ? (
+          <div className="mt-4 space-y-1 rounded-xl border border-amber-800 bg-amber-950/20 px-3 py-2 text-xs text-amber-200">
+            {result.warnings.map((w) => (
+              <div key={w}>{w}</div>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+          {!hasAccounts ? (
+            <div className="text-xs text-amber-300">
+              Add “{CT_EXPENSE_ACCOUNT}” and “{CT_PAYABLE_ACCOUNT}” accounts to post the provision.
+            </div>
+          ) : alreadyPosted ? (
+            <div className="text-xs text-zinc-500">Provision already posted for this period.</div>
+          ) : null}
+          <button
+            onClick={postProvision}
+            disabled={!hasAccounts || alreadyPosted || result.taxPayable <= 0}
+            className="rounded-xl border border-emerald-700 bg-emerald-900/30 px-4 py-2 text-xs font-medium text-emerald-200 hover:bg-emerald-900/40 disabled:opacity-40"
+          >
+            Post provision entry
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,9 @@
 "use client";
 
 import React, { useMemo, useState } from "react";
-import type { Currency, Entity, BusinessUnit, ConsolidationMethod } from "@/lib/types";
+import type { Currency, Emirate, Entity, BusinessUnit, ConsolidationMethod } from "@/lib/types";
 import { Card, CardContent, CardHeader } from "./ui/Card";
+import { EMIRATES } from "@/lib/vatReturnEngine";
 
 function makeId() {
   return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
@@ -233,11 +234,11 @@ export default function EntitiesPanel({
     );
   }
 
-  function updateBU(entityId: string, buId: string, name: string) {
+  function updateBU(entityId: string, buId: string, patch: Partial<BusinessUnit>) {
     setEntities((prev) =>
       prev.map((e) =>
         e.id === entityId
-          ? { ...e, businessUnits: e.businessUnits.map((b) => (b.id === buId ? { ...b, name } : b)) }
+          ? { ...e, businessUnits: e.businessUnits.map((b) => (b.id === buId ? { ...b, ...patch } : b)) }
           : e
       )
     );
@@ -284,7 +285,7 @@ export default function EntitiesPanel({
 
           {active ? (
             <div className="mt-4 rounded-2xl border border-zinc-800 bg-zinc-950/30 p-4">
-              <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
                 <div className="md:col-span-2">
                   <label className="text-xs text-zinc-400">Entity name</label>
                   <input
@@ -307,6 +308,20 @@ export default function EntitiesPanel({
                     ))}
                   </select>
                 </div>
+                <div>
+                  <label className="text-xs text-zinc-400">Emirate (VAT)</label>
+                  <select
+                    value={active.emirate ?? "dubai"}
+                    onChange={(e) => updateEntity(active.id, { emirate: e.target.value as Emirate })}
+                    className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+                  >
+                    {EMIRATES.map((em) => (
+                      <option key={em.id} value={em.id}>
+                        {em.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div className="mt-4 flex items-center justify-between">
@@ -332,9 +347,22 @@ export default function EntitiesPanel({
                   <div key={bu.id} className="flex items-center gap-2">
                     <input
                       value={bu.name}
-                      onChange={(e) => updateBU(active.id, bu.id, e.target.value)}
+                      onChange={(e) => updateBU(active.id, bu.id, { name: e.target.value })}
                       className="w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
                     />
+                    <select
+                      value={bu.emirate ?? ""}
+                      onChange={(e) => updateBU(active.id, bu.id, { emirate: (e.target.value || undefined) as Emirate | undefined })}
+                      className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+                      title="Emirate of supply for this BU"
+                    >
+                      <option value="">Entity emirate</option>
+                      {EMIRATES.map((em) => (
+                        <option key={em.id} value={em.id}>
+                          {em.label}
+                        </option>
+                      ))}
+                    </select>
                     <button
                       onClick={() => removeBU(active.id, bu.id)}
                       className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-300 hover:border-zinc-700"
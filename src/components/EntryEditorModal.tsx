@@ -1,8 +1,8 @@
 "use client";
 
 import React, { useMemo, useState } from "react";
-import type { Account, JournalEntry, JournalLine, Currency } from "@/lib/types";
-import { isBalancedEntry, sumCredits, sumDebits } from "@/lib/journalEngine";
+import type { Account, Contact, JournalEntry, JournalLine, Currency, TaxCode } from "@/lib/types";
+import { isBalancedEntry, resplitTaxes, sumCredits, sumDebits, TAX_CODE_LABELS } from "@/lib/journalEngine";
 
 function round2(n: number) {
   return Math.round(n * 100) / 100;
@@ -21,12 +21,16 @@ export default function EntryEditorModal({
   open,
   entry,
   accounts,
+  contacts = [],
+  vatRate,
   onCancel,
   onSave,
 }: {
   open: boolean;
   entry: JournalEntry | null;
   accounts: Account[];
+  contacts?: Contact[];
+  vatRate: number;
   onCancel: () => void;
   onSave: (updated: JournalEntry) => void;
 }) {
@@ -55,6 +59,20 @@ export default function EntryEditorModal({
     });
   }
 
+  // Changing a tax code rebuilds the VAT lines and re-settles the cash / AR / AP line.
+  function setTaxCode(idx: number, code: TaxCode | undefined) {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const lines = prev.lines.map((l, i) => {
+        if (i !== idx) return l;
+        if (!code) return { ...l, taxCode: undefined, taxKind: undefined };
+        const side = accounts.find((a) => a.name === l.account)?.normalSide;
+        return { ...l, taxCode: code, taxKind: l.taxKind ?? (side === "credit" ? "sale" : "purchase") };
+      });
+      return { ...prev, lines: resplitTaxes(lines, vatRate) };
+    });
+  }
+
   function addLine() {
     setDraft((prev) => {
       if (!prev) return prev;
@@ -94,7 +112,7 @@ export default function EntryEditorModal({
         </div>
 
         <div className="px-5 py-5">
-          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
             <div>
               <label className="text-xs text-zinc-400">Date (YYYY-MM-DD)</label>
               <input
@@ -122,23 +140,41 @@ export default function EntryEditorModal({
             <div>
               <label className="text-xs text-zinc-400">Memo</label>
               <input
+                dir="auto"
                 value={draft.memo}
                 onChange={(e) => setDraft({ ...draft, memo: e.target.value })}
                 className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
               />
             </div>
+
+            <div>
+              <label className="text-xs text-zinc-400">Contact</label>
+              <select
+                value={draft.contactId ?? ""}
+                onChange={(e) => setDraft({ ...draft, contactId: e.target.value || undefined })}
+                className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+              >
+                <option value="">None</option>
+                {contacts.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div className="mt-5 overflow-hidden rounded-2xl border border-zinc-800">
             <div className="grid grid-cols-12 bg-zinc-950/40 px-4 py-2 text-xs text-zinc-400">
-              <div className="col-span-6">Account</div>
-              <div className="col-span-3 text-right">Debit</div>
-              <div className="col-span-3 text-right">Credit</div>
+              <div className="col-span-5">Account</div>
+              <div className="col-span-3">Tax code</div>
+              <div className="col-span-2 text-right">Debit</div>
+              <div className="col-span-2 text-right">Credit</div>
             </div>
 
             {draft.lines.map((l, idx) => (
-              <div key={idx} className="grid grid-cols-12 items-center border-t border-zinc-800 px-4 py-2">
-                <div className="col-span-6 flex items-center gap-2">
+              <div key={idx} className="grid grid-cols-12 items-center gap-2 border-t border-zinc-800 px-4 py-2">
+                <div className="col-span-5 flex items-center gap-2">
                   <select
                     value={l.account}
                     onChange={(e) => setLine(idx, { account: e.target.value })}
@@ -166,6 +202,25 @@ export default function EntryEditorModal({
                 </div>
 
                 <div className="col-span-3">
+                  {l.vatLine ? (
+                    <div className="px-3 text-xs text-zinc-500">auto • {TAX_CODE_LABELS[l.taxCode ?? "standard"]}</div>
+                  ) : (
+                    <select
+                      value={l.taxCode ?? ""}
+                      onChange={(e) => setTaxCode(idx, (e.target.value || undefined) as TaxCode | undefined)}
+                      className="w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+                    >
+                      <option value="">—</option>
+                      {(Object.keys(TAX_CODE_LABELS) as TaxCode[]).map((code) => (
+                        <option key={code} value={code}>
+                          {TAX_CODE_LABELS[code]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+
+                <div className="col-span-2">
                   <input
                     inputMode="decimal"
                     value={l.debit ? l.debit : ""}
@@ -179,7 +234,7 @@ export default function EntryEditorModal({
                   />
                 </div>
 
-                <div className="col-span-3">
+                <div className="col-span-2">
                   <input
                     inputMode="decimal"
                     value={l.credit ? l.credit : ""}
@@ -1,13 +1,38 @@
 "use client";
 
 import React, { useMemo, useState } from "react";
-import type { Account, JournalEntry, JournalLine } from "@/lib/types";
-import { sumDebits, sumCredits } from "@/lib/journalEngine";
+import type { Account, Contact, JournalEntry, JournalLine, TaxCode } from "@/lib/types";
+import { resplitTaxes, sumDebits, sumCredits, TAX_CODE_LABELS } from "@/lib/journalEngine";
+import { isActiveEntry } from "@/lib/corrections";
 
 function money(n: number) {
   return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 }
 
+// How a saved entry stands, and the linked entry worth opening from here.
+function statusOf(e: JournalEntry): { text: string; link?: { id: string; label: string } } {
+  if (e.reversalOf) {
+    return {
+      text: "Reversal. It cancels another entry and cannot be changed.",
+      link: { id: e.reversalOf, label: "Open reversed entry" },
+    };
+  }
+  if (e.status === "void") {
+    return {
+      text: "Voided: cancelled by a reversal.",
+      link: e.reversedBy ? { id: e.reversedBy, label: "Open reversal" } : undefined,
+    };
+  }
+  if (e.status === "reversed") {
+    return {
+      text: "Corrected: reversed and replaced by a new entry.",
+      link: e.replacedBy ? { id: e.replacedBy, label: "Open replacement" } : undefined,
+    };
+  }
+  const text = "Posted. Saving changes posts a reversal and a corrected entry; Void posts a reversal.";
+  return e.replaces ? { text: `Correction. ${text}`, link: { id: e.replaces, label: "Open original" } } : { text };
+}
+
 function lineRowKey(l: JournalLine, i: number) {
   return `${i}-${l.account}-${l.debit}-${l.credit}`;
 }
@@ -16,16 +41,22 @@ export default function EntryInspectorModal({
   open,
   entry,
   accounts,
+  contacts = [],
+  vatRate,
   onClose,
   onDelete,
   onSave,
+  onOpenEntry,
 }: {
   open: boolean;
   entry: JournalEntry | null;
   accounts: Account[];
+  contacts?: Contact[];
+  vatRate: number;
   onClose: () => void;
   onDelete: (id: string) => void;
-  onSave: (updated: JournalEntry) => void;
+  onSave: (updated: JournalEntry) => void; // a correction of the posted entry, see corrections.ts
+  onOpenEntry?: (entryId: string) => void;
 }) {
   const [draft, setDraft] = useState<JournalEntry | null>(entry);
 
@@ -35,6 +66,8 @@ export default function EntryInspectorModal({
 
   if (!open || !draft) return null;
 
+  const editable = isActiveEntry(draft);
+  const status = statusOf(draft);
   const td = sumDebits(draft.lines);
   const tc = sumCredits(draft.lines);
   const balanced = Math.abs(td - tc) <= 0.01;
@@ -47,6 +80,20 @@ export default function EntryInspectorModal({
     });
   }
 
+  // Changing a tax code rebuilds the VAT lines and re-settles the cash / AR / AP line.
+  function setTaxCode(idx: number, code: TaxCode | undefined) {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const nextLines = prev.lines.map((l, i) => {
+        if (i !== idx) return l;
+        if (!code) return { ...l, taxCode: undefined, taxKind: undefined };
+        const side = accounts.find((a) => a.name === l.account)?.normalSide;
+        return { ...l, taxCode: code, taxKind: l.taxKind ?? (side === "credit" ? "sale" : "purchase") };
+      });
+      return { ...prev, lines: resplitTaxes(nextLines, vatRate) };
+    });
+  }
+
   function addLine() {
     setDraft((prev) => {
       if (!prev) return prev;
@@ -77,12 +124,14 @@ export default function EntryInspectorModal({
           </div>
 
           <div className="flex items-center gap-2">
-            <button
-              onClick={() => onDelete(draft.id)}
-              className="rounded-xl border border-rose-800 bg-rose-950/30 px-3 py-2 text-xs text-rose-200 hover:border-rose-700"
-            >
-              Delete
-            </button>
+            {editable ? (
+              <button
+                onClick={() => onDelete(draft.id)}
+                className="rounded-xl border border-rose-800 bg-rose-950/30 px-3 py-2 text-xs text-rose-200 hover:border-rose-700"
+              >
+                Void
+              </button>
+            ) : null}
             <button
               onClick={onClose}
               className="rounded-xl border border-zinc-800 bg-zinc-900/50 px-3 py-2 text-xs text-zinc-200 hover:border-zinc-700"
@@ -92,7 +141,23 @@ export default function EntryInspectorModal({
           </div>
         </div>
 
-        <div className="px-5 py-5 space-y-4">
+        <div className="flex items-center justify-between gap-3 border-b border-zinc-800 bg-zinc-900/30 px-5 py-2">
+          <div className={["text-xs", editable ? "text-zinc-400" : "text-amber-300"].join(" ")}>
+            {status.text}
+            {draft.redirectedFrom ? ` Moved from ${draft.redirectedFrom}: that period was closed.` : ""}
+            {draft.lockOverride ? ` Posted into a closed period: ${draft.lockOverride.reason}` : ""}
+          </div>
+          {status.link && onOpenEntry ? (
+            <button
+              onClick={() => onOpenEntry(status.link!.id)}
+              className="shrink-0 rounded-xl border border-zinc-800 bg-zinc-900/40 px-3 py-1 text-xs text-zinc-200 hover:border-zinc-700"
+            >
+              {status.link.label}
+            </button>
+          ) : null}
+        </div>
+
+        <fieldset disabled={!editable} className="px-5 py-5 space-y-4">
           <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
             <div>
               <label className="text-xs text-zinc-400">Date</label>
@@ -122,13 +187,32 @@ export default function EntryInspectorModal({
             </div>
           </div>
 
-          <div>
-            <label className="text-xs text-zinc-400">Memo</label>
-            <input
-              value={draft.memo}
-              onChange={(e) => setDraft({ ...draft, memo: e.target.value })}
-              className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
-            />
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <div className="md:col-span-2">
+              <label className="text-xs text-zinc-400">Memo</label>
+              <input
+                dir="auto"
+                value={draft.memo}
+                onChange={(e) => setDraft({ ...draft, memo: e.target.value })}
+                className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+              />
+            </div>
+
+            <div>
+              <label className="text-xs text-zinc-400">Contact</label>
+              <select
+                value={draft.contactId ?? ""}
+                onChange={(e) => setDraft({ ...draft, contactId: e.target.value || undefined })}
+                className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+              >
+                <option value="">None</option>
+                {contacts.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div className="rounded-2xl border border-zinc-800 overflow-hidden">
@@ -143,14 +227,15 @@ export default function EntryInspectorModal({
             </div>
 
             <div className="grid grid-cols-12 bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">
-              <div className="col-span-6">Account</div>
-              <div className="col-span-3 text-right">Debit</div>
-              <div className="col-span-3 text-right">Credit</div>
+              <div className="col-span-5">Account</div>
+              <div className="col-span-3">Tax code</div>
+              <div className="col-span-2 text-right">Debit</div>
+              <div className="col-span-2 text-right">Credit</div>
             </div>
 
             {draft.lines.map((l, idx) => (
-              <div key={lineRowKey(l, idx)} className="grid grid-cols-12 items-center border-t border-zinc-800 px-4 py-2">
-                <div className="col-span-6">
+              <div key={lineRowKey(l, idx)} className="grid grid-cols-12 items-center gap-2 border-t border-zinc-800 px-4 py-2">
+                <div className="col-span-5">
                   <select
                     value={l.account}
                     onChange={(e) => updateLine(idx, { account: e.target.value })}
@@ -167,6 +252,25 @@ export default function EntryInspectorModal({
                 </div>
 
                 <div className="col-span-3">
+                  {l.vatLine ? (
+                    <div className="px-3 text-xs text-zinc-500">auto • {TAX_CODE_LABELS[l.taxCode ?? "standard"]}</div>
+                  ) : (
+                    <select
+                      value={l.taxCode ?? ""}
+                      onChange={(e) => setTaxCode(idx, (e.target.value || undefined) as TaxCode | undefined)}
+                      className="w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+                    >
+                      <option value="">—</option>
+                      {(Object.keys(TAX_CODE_LABELS) as TaxCode[]).map((code) => (
+                        <option key={code} value={code}>
+                          {TAX_CODE_LABELS[code]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+
+                <div className="col-span-2">
                   <input
                     inputMode="decimal"
                     value={l.debit || 0}
@@ -175,7 +279,7 @@ export default function EntryInspectorModal({
                   />
                 </div>
 
-                <div className="col-span-3 flex items-center gap-2">
+                <div className="col-span-2 flex items-center gap-2">
                   <input
                     inputMode="decimal"
                     value={l.credit || 0}
@@ -205,7 +309,7 @@ export default function EntryInspectorModal({
 
             <button
               onClick={() => onSave(draft)}
-              disabled={!balanced}
+              disabled={!balanced || !editable}
               className={[
                 "rounded-xl border px-4 py-2 text-xs font-medium",
                 balanced
@@ -216,7 +320,7 @@ export default function EntryInspectorModal({
               Save changes
             </button>
           </div>
-        </div>
+        </fieldset>
       </div>
     </div>
   );
@@ -1,9 +1,10 @@
 "use client";
 
 import React, { useMemo, useState } from "react";
-import type { Account, JournalEntry } from "@/lib/types";
+import type { Account, Contact, JournalEntry } from "@/lib/types";
 import { Card, CardContent, CardHeader } from "./ui/Card";
-import { computeBalances, formatBalance } from "@/lib/journalEngine";
+import { computeBalances, formatBalance, TAX_CODE_LABELS } from "@/lib/journalEngine";
+import { hasArabic } from "@/lib/arabicText";
 import EntryEditorModal from "./EntryEditorModal";
 
 function money(n: number) {
@@ -58,11 +59,17 @@ function BalanceTable({
 export default function EntryPreview({
   accounts,
   entries,
+  contacts = [],
+  vatRate,
   onChangeEntries,
+  onReclassify,
 }: {
   accounts: Account[];
   entries: JournalEntry[];
+  contacts?: Contact[];
+  vatRate: number;
   onChangeEntries: (next: JournalEntry[]) => void;
+  onReclassify?: (before: JournalEntry, after: JournalEntry) => void;
 }) {
   const [editingId, setEditingId] = useState<string | null>(null);
 
@@ -71,6 +78,8 @@ export default function EntryPreview({
     [entries, editingId]
   );
 
+  const contactNames = useMemo(() => new Map(contacts.map((c) => [c.id, c.name])), [contacts]);
+
   const currencyLabel = entries[0]?.currency ?? "—";
 
   const { opening, closing } = useMemo(() => computeBalances(accounts, entries), [accounts, entries]);
@@ -93,11 +102,20 @@ export default function EntryPreview({
             ) : (
               <div className="flex flex-col gap-4">
                 {entries.map((entry) => (
-                  <div key={entry.id} className="rounded-2xl border border-zinc-800 overflow-hidden">
+                  <div
+                    key={entry.id}
+                    dir={hasArabic(entry.memo) ? "rtl" : "ltr"} // Arabic commands read right-to-left
+                    className="rounded-2xl border border-zinc-800 overflow-hidden"
+                  >
                     <div className="flex items-start justify-between gap-3 border-b border-zinc-800 bg-zinc-950/40 px-4 py-3">
                       <div>
                         <div className="text-sm text-zinc-100 font-medium">
                           {entry.dateISO} • {entry.currency}
+                          {entry.contactId && contactNames.has(entry.contactId) ? (
+                            <span className="ms-2 rounded-full border border-zinc-800 px-2 py-0.5 text-[11px] font-normal text-zinc-300">
+                              {contactNames.get(entry.contactId)}
+                            </span>
+                          ) : null}
                         </div>
                         <div className="mt-1 text-xs text-zinc-400">{entry.memo}</div>
                       </div>
@@ -122,7 +140,17 @@ export default function EntryPreview({
                         key={idx}
                         className="grid grid-cols-12 border-t border-zinc-800 px-4 py-2 text-sm"
                       >
-                        <div className="col-span-6 text-zinc-100">{l.account}</div>
+                        <div className="col-span-6 text-zinc-100">
+                          {l.account}
+                          {l.quantity && l.unitPrice ? (
+                            <div className="text-xs text-zinc-500">
+                              {l.quantity} {l.unit ?? "units"} @ {money(l.unitPrice)}
+                            </div>
+                          ) : null}
+                          {l.taxCode && !l.vatLine ? (
+                            <div className="text-xs text-zinc-500">{TAX_CODE_LABELS[l.taxCode]}</div>
+                          ) : null}
+                        </div>
                         <div className="col-span-3 text-right text-zinc-200">
                           {l.debit ? money(l.debit) : "—"}
                         </div>
@@ -145,8 +173,11 @@ export default function EntryPreview({
         open={Boolean(editingId)}
         entry={editingEntry}
         accounts={accounts}
+        contacts={contacts}
+        vatRate={vatRate}
         onCancel={() => setEditingId(null)}
         onSave={(updated) => {
+          if (editingEntry) onReclassify?.(editingEntry, updated);
           onChangeEntries(entries.map((e) => (e.id === updated.id ? updated : e)));
           setEditingId(null);
         }}
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useRef } from "react";
+import type { ParsedField, TokenSpan } from "@/lib/types";
+
+const FIELD_STYLE: Record<ParsedField, string> = {
+  action: "bg-sky-500/25",
+  amount: "bg-emerald-500/25",
+  currency: "bg-teal-500/25",
+  date: "bg-violet-500/25",
+  counterparty: "bg-amber-500/25",
+  category: "bg-rose-500/25",
+  cashAccount: "bg-indigo-500/25",
+};
+
+const FIELD_LABEL: Record<ParsedField, string> = {
+  action: "action",
+  amount: "amount",
+  currency: "currency",
+  date: "date",
+  counterparty: "counterparty",
+  category: "category",
+  cashAccount: "cash / bank",
+};
+
+// Shared by the textarea and the backdrop so the highlights line up with the text.
+const boxClass = "min-h-35 w-full rounded-2xl border px-4 py-3 text-sm whitespace-pre-wrap break-words";
+
+/**
+ * Textarea with a backdrop that marks what the parser read from each segment.
+ * Spans are sorted and non-overlapping (see journalEngine locateSpans).
+ */
+export default function HighlightedTextarea({
+  value,
+  onChange,
+  spans,
+  placeholder,
+  textareaRef,
+}: {
+  value: string;
+  onChange: (next: string) => void;
+  spans: TokenSpan[];
+  placeholder?: string;
+  textareaRef?: React.Ref<HTMLTextAreaElement>;
+}) {
+  const backdropRef = useRef<HTMLDivElement | null>(null);
+
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  for (const s of spans) {
+    if (s.start < at || s.end > value.length) continue;
+    if (s.start > at) parts.push(value.slice(at, s.start));
+    parts.push(
+      <mark key={`${s.start}-${s.field}`} className={["rounded text-transparent", FIELD_STYLE[s.field]].join(" ")}>
+        {value.slice(s.start, s.end)}
+      </mark>
+    );
+    at = s.end;
+  }
+  parts.push(value.slice(at));
+
+  const fields = Array.from(new Set(spans.map((s) => s.field)));
+
+  return (
+    <div>
+      <div className="relative mt-2 rounded-2xl bg-zinc-950/40">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          dir="auto"
+          className={[boxClass, "pointer-events-none absolute inset-0 overflow-hidden border-transparent text-transparent"].join(" ")}
+        >
+          {parts}
+          {/* a trailing newline needs a character after it to take up a line */}
+          {value.endsWith("\n") ? " " : null}
+        </div>
+        <textarea
+          ref={textareaRef}
+          dir="auto"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          placeholder={placeholder}
+          className={[
+            boxClass,
+            "relative block resize-none border-zinc-800 bg-transparent text-zinc-100 outline-none placeholder:text-zinc-600 focus:border-zinc-700",
+          ].join(" ")}
+        />
+      </div>
+
+      {fields.length ? (
+        <div className="mt-2 flex flex-wrap gap-2 text-[11px] text-zinc-400">
+          {fields.map((f) => (
+            <span key={f} className={["rounded px-1.5 py-0.5", FIELD_STYLE[f]].join(" ")}>
+              {FIELD_LABEL[f]}
+            </span>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
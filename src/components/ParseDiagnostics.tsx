@@ -0,0 +1,92 @@
+"use client";
+
+import React from "react";
+import type { ParseDiagnostic } from "@/lib/types";
+
+const STATUS_STYLE: Record<ParseDiagnostic["status"], string> = {
+  ok: "border-emerald-800 bg-emerald-950/20 text-emerald-200",
+  warning: "border-amber-800 bg-amber-950/20 text-amber-200",
+  skipped: "border-rose-800 bg-rose-950/20 text-rose-200",
+};
+
+export default function ParseDiagnostics({
+  diagnostics,
+  onPickSuggestion,
+}: {
+  diagnostics: ParseDiagnostic[];
+  onPickSuggestion?: (d: ParseDiagnostic, account: string) => void;
+}) {
+  if (!diagnostics.length) return null;
+
+  const issues = diagnostics.filter((d) => d.status !== "ok").length;
+
+  return (
+    <div className="mt-4 rounded-2xl border border-zinc-800 bg-zinc-950/30 p-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-zinc-400">What the parser understood</div>
+        <div className="text-xs text-zinc-500">
+          {issues ? `${issues} line(s) need attention` : "All lines parsed"}
+        </div>
+      </div>
+
+      <div className="mt-2 space-y-2">
+        {diagnostics.map((d, idx) => (
+          <div key={`${idx}-${d.segment}`} className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-3 py-2">
+            <div className="flex items-start justify-between gap-3">
+              <div dir="auto" className="text-sm text-zinc-100">
+                {d.segment}
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <span className="text-[11px] text-zinc-500">{Math.round(d.confidence * 100)}%</span>
+                <span className={["rounded-full border px-2 py-0.5 text-[11px]", STATUS_STYLE[d.status]].join(" ")}>
+                  {d.status}
+                </span>
+              </div>
+            </div>
+
+            {d.message ? <div className="mt-1 text-xs text-zinc-300">{d.message}</div> : null}
+
+            {d.explicit.length || d.inferred.length ? (
+              <div className="mt-1 text-[11px] text-zinc-500">
+                {d.explicit.length ? (
+                  <>
+                    found: <span className="text-zinc-300">{d.explicit.join(", ")}</span>
+                  </>
+                ) : null}
+                {d.explicit.length && d.inferred.length ? " • " : null}
+                {d.inferred.length ? (
+                  <>
+                    inferred: <span className="text-zinc-400">{d.inferred.join(", ")}</span>
+                  </>
+                ) : null}
+                {d.fallbackAccount ? (
+                  <>
+                    {" "}
+                    • fallback: <span className="text-amber-300">{d.fallbackAccount}</span>
+                  </>
+                ) : null}
+              </div>
+            ) : null}
+
+            {d.suggestions?.length && onPickSuggestion ? (
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <span className="text-[11px] text-zinc-500">Did you mean</span>
+                {d.suggestions.map((s) => (
+                  <button
+                    key={s.account}
+                    type="button"
+                    onClick={() => onPickSuggestion(d, s.account)}
+                    className="rounded-full border border-zinc-800 bg-zinc-950/40 px-2 py-0.5 text-[11px] text-zinc-200 hover:border-zinc-700"
+                    title={`${s.via} match`}
+                  >
+                    {s.account} <span className="text-zinc-500">{Math.round(s.score * 100)}%</span>
+                  </button>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { Contact, Entity, JournalEntry, PeriodClose, PeriodStatus } from "@/lib/types";
+import { Card, CardContent, CardHeader } from "./ui/Card";
+import { buildCloseChecklist, PERIOD_STATUS_LABELS, periodStatusOf } from "@/lib/periodClose";
+
+// Last month: the one usually being closed.
+function previousMonth() {
+  const d = new Date();
+  const p = new Date(d.getFullYear(), d.getMonth() - 1, 1);
+  return `${p.getFullYear()}-${String(p.getMonth() + 1).padStart(2, "0")}`;
+}
+
+const inputClass =
+  "mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700";
+
+const STATUS_STYLES: Record<PeriodStatus, string> = {
+  open: "text-emerald-300",
+  soft_closed: "text-amber-300",
+  hard_closed: "text-rose-300",
+};
+
+/** Month-end close per entity: checklist, period statuses and the lock date. */
+export default function PeriodClosePanel({
+  entities,
+  setEntities,
+  activeEntityId,
+  setActiveEntityId,
+  journalEntries,
+  contacts,
+  actor,
+}: {
+  entities: Entity[];
+  setEntities: React.Dispatch<React.SetStateAction<Entity[]>>;
+  activeEntityId: string;
+  setActiveEntityId: (id: string) => void;
+  journalEntries: JournalEntry[];
+  contacts: Contact[];
+  actor: string;
+}) {
+  const [period, setPeriod] = useState(previousMonth);
+
+  const entity = entities.find((e) => e.id === activeEntityId) ?? null;
+
+  const checklist = useMemo(() => {
+    if (!entity || !period) return [];
+    return buildCloseChecklist({ entity, entries: journalEntries, contacts, periodYYYYMM: period });
+  }, [entity, journalEntries, contacts, period]);
+
+  // posted into a closed month with an override, or moved out of one
+  const exceptions = useMemo(
+    () =>
+      journalEntries.filter(
+        (e) =>
+          e.entityId === activeEntityId &&
+          ((e.lockOverride && e.dateISO.slice(0, 7) === period) || e.redirectedFrom?.slice(0, 7) === period)
+      ),
+    [journalEntries, activeEntityId, period]
+  );
+
+  if (!entity) return null;
+
+  const record = entity.periods?.find((p) => p.periodYYYYMM === period);
+  const status = record?.status ?? "open";
+  const lockedByDate = Boolean(period && entity.lockDateISO && `${period}-01` <= entity.lockDateISO);
+  const effective = period ? periodStatusOf(entity, `${period}-01`) : "open";
+  const outstanding = checklist.filter((c) => !c.ok).length;
+  const closedPeriods = (entity.periods ?? [])
+    .filter((p) => p.status !== "open")
+    .sort((a, b) => b.periodYYYYMM.localeCompare(a.periodYYYYMM));
+
+  function updatePeriod(patch: Partial<PeriodClose>) {
+    if (!entity || !period) return;
+    setEntities((prev) =>
+      prev.map((e) => {
+        if (e.id !== entity.id) return e;
+        const periods = e.periods ?? [];
+        const current = periods.find((p) => p.periodYYYYMM === period);
+        const next: PeriodClose = { periodYYYYMM: period, status: "open", ...current, ...patch };
+        return {
+          ...e,
+          periods: current
+            ? periods.map((p) => (p.periodYYYYMM === period ? next : p))
+            : [...periods, next],
+        };
+      })
+    );
+  }
+
+  function setStatus(next: PeriodStatus) {
+    updatePeriod({ status: next, changedAt: new Date().toISOString(), changedBy: actor });
+  }
+
+  function setLockDate(lockDateISO: string) {
+    if (!entity) return;
+    setEntities((prev) =>
+      prev.map((e) => (e.id === entity.id ? { ...e, lockDateISO: lockDateISO || undefined } : e))
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader
+        title="Period Close"
+        subtitle="Close months once they are reconciled. Soft-closed months take entries only with a reason; hard-closed ones take none."
+      />
+      <CardContent>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <div>
+            <label className="text-xs text-zinc-400">Entity</label>
+            <select value={activeEntityId} onChange={(e) => setActiveEntityId(e.target.value)} className={inputClass}>
+              {entities.map((e) => (
+                <option key={e.id} value={e.id}>
+                  {e.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-zinc-400">Period</label>
+            <input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-400">Lock date</label>
+            <input
+              type="date"
+              value={entity.lockDateISO ?? ""}
+              onChange={(e) => setLockDate(e.target.value)}
+              className={inputClass}
+            />
+            <div className="mt-1 text-xs text-zinc-500">Everything on or before it is hard-closed.</div>
+          </div>
+          <div>
+            <label className="text-xs text-zinc-400">Status</label>
+            <div className={["mt-2 py-2 text-sm font-medium", STATUS_STYLES[effective]].join(" ")}>
+              {PERIOD_STATUS_LABELS[effective]}
+              {lockedByDate ? <span className="text-xs font-normal text-zinc-500"> (lock date)</span> : null}
+            </div>
+            {record?.changedAt ? (
+              <div className="text-xs text-zinc-500">
+                {record.changedAt.slice(0, 16).replace("T", " ")} by {record.changedBy ?? "—"}
+              </div>
+            ) : null}
+          </div>
+        </div>
+
+        <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+          <div className="bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">Close checklist for {period || "—"}</div>
+          {checklist.map((c) => (
+            <div key={c.id} className="flex items-start gap-3 border-t border-zinc-800 px-4 py-2 text-sm">
+              <input
+                type="checkbox"
+                checked={c.ok}
+                disabled={c.auto || status !== "open"}
+                onChange={(e) => updatePeriod({ checklist: { ...record?.checklist, [c.id]: e.target.checked } })}
+                className="mt-1"
+              />
+              <div className="min-w-0">
+                <div className={c.ok ? "text-zinc-200" : "text-zinc-100"}>
+                  {c.label}
+                  <span className="ml-2 text-xs text-zinc-500">{c.auto ? "from the ledger" : "manual"}</span>
+                </div>
+                {c.detail ? <div className="text-xs text-amber-300">{c.detail}</div> : null}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+          {outstanding && status !== "hard_closed" ? (
+            <div className="text-xs text-amber-300">
+              {outstanding} checklist {outstanding === 1 ? "item is" : "items are"} not done.
+            </div>
+          ) : null}
+          {status !== "open" ? (
+            <button
+              onClick={() => setStatus("open")}
+              className="rounded-xl border border-zinc-800 bg-zinc-900/50 px-4 py-2 text-xs text-zinc-200 hover:border-zinc-700"
+            >
+              Reopen
+            </button>
+          ) : null}
+          <button
+            onClick={() => setStatus("soft_closed")}
+            disabled={!period || status === "soft_closed"}
+            className="rounded-xl border border-amber-800 bg-amber-950/30 px-4 py-2 text-xs text-amber-200 hover:border-amber-700 disabled:opacity-40"
+          >
+            Soft close
+          </button>
+          <button
+            onClick={() => setStatus("hard_closed")}
+            disabled={!period || status === "hard_closed"}
+            className="rounded-xl border border-rose-800 bg-rose-950/30 px-4 py-2 text-xs text-rose-200 hover:border-rose-700 disabled:opacity-40"
+          >
+            Hard close
+          </button>
+        </div>
+
+        {exceptions.length ? (
+          <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+            <div className="bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">Posted around the close</div>
+            {exceptions.map((e) => (
+              <div key={e.id} className="grid grid-cols-12 gap-2 border-t border-zinc-800 px-4 py-2 text-sm">
+                <div className="col-span-2 text-zinc-300">{e.dateISO}</div>
+                <div dir="auto" className="col-span-5 truncate text-zinc-100">
+                  {e.memo}
+                </div>
+                <div dir="auto" className="col-span-5 truncate text-xs text-zinc-400">
+                  {e.lockOverride
+                    ? `Posted into the ${PERIOD_STATUS_LABELS[e.lockOverride.status].toLowerCase()} period: ${e.lockOverride.reason}`
+                    : `Moved from ${e.redirectedFrom}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+          <div className="grid grid-cols-12 gap-2 bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">
+            <div className="col-span-3">Period</div>
+            <div className="col-span-3">Status</div>
+            <div className="col-span-6">Changed</div>
+          </div>
+          {closedPeriods.length === 0 ? (
+            <div className="border-t border-zinc-800 px-4 py-3 text-sm text-zinc-500">No closed periods yet.</div>
+          ) : (
+            closedPeriods.map((p) => (
+              <button
+                key={p.periodYYYYMM}
+                type="button"
+                onClick={() => setPeriod(p.periodYYYYMM)}
+                className="grid w-full grid-cols-12 gap-2 border-t border-zinc-800 px-4 py-2 text-left text-sm hover:bg-zinc-900/40"
+              >
+                <div className="col-span-3 text-zinc-200">{p.periodYYYYMM}</div>
+                <div className={["col-span-3", STATUS_STYLES[p.status]].join(" ")}>{PERIOD_STATUS_LABELS[p.status]}</div>
+                <div className="col-span-6 text-zinc-400">
+                  {p.changedAt ? `${p.changedAt.slice(0, 16).replace("T", " ")} by ${p.changedBy ?? "—"}` : "—"}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Entity } from "@/lib/types";
+import type { LockedEntry } from "@/lib/periodClose";
+import { PERIOD_STATUS_LABELS } from "@/lib/periodClose";
+
+const CHANGE_LABELS: Record<LockedEntry["change"], string> = {
+  added: "New",
+  changed: "Edited",
+  removed: "Removed",
+};
+
+/**
+ * Shown when a ledger change touches a closed period. New entries in a
+ * hard-closed period can only be moved to the next open period; edits and
+ * removals there are refused. Soft-closed periods also take the change as
+ * dated, with a reason that goes to the audit trail.
+ */
+export default function PeriodLockModal({
+  locked,
+  entities,
+  onRedirect,
+  onOverride,
+  onCancel,
+}: {
+  locked: LockedEntry[];
+  entities: Entity[];
+  onRedirect: () => void;
+  onOverride: (reason: string) => void;
+  onCancel: () => void;
+}) {
+  const [reason, setReason] = useState("");
+
+  const entityNames = new Map(entities.map((e) => [e.id, e.name]));
+  const canRedirect = locked.every((l) => l.redirectISO);
+  const canOverride = locked.every((l) => l.status === "soft_closed");
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4">
+      <div className="w-full max-w-2xl overflow-hidden rounded-2xl border border-zinc-800 bg-zinc-950 shadow-xl">
+        <div className="border-b border-zinc-800 px-5 py-4">
+          <div className="text-sm font-medium text-zinc-100">Closed period</div>
+          <div className="mt-1 text-xs text-zinc-400">
+            {locked.length === 1 ? "This change touches" : `${locked.length} changes touch`} a closed period.
+          </div>
+        </div>
+
+        <div className="max-h-72 overflow-y-auto px-5 py-3">
+          {locked.map((l) => (
+            <div key={l.entry.id} className="grid grid-cols-12 gap-2 border-t border-zinc-800 py-2 text-sm first:border-t-0">
+              <div className="col-span-2 text-zinc-300">{l.entry.dateISO}</div>
+              <div className="col-span-6 min-w-0">
+                <div dir="auto" className="truncate text-zinc-100">
+                  {l.entry.memo}
+                </div>
+                <div className="text-xs text-zinc-500">{entityNames.get(l.entry.entityId) ?? l.entry.entityId}</div>
+              </div>
+              <div
+                className={[
+                  "col-span-2 text-xs",
+                  l.status === "hard_closed" ? "text-rose-300" : "text-amber-300",
+                ].join(" ")}
+              >
+                {PERIOD_STATUS_LABELS[l.status]}
+              </div>
+              <div className="col-span-2 text-right text-xs text-zinc-400">
+                {l.change !== "added"
+                  ? CHANGE_LABELS[l.change]
+                  : l.redirectISO
+                    ? `→ ${l.redirectISO}`
+                    : "No open period"}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {canOverride ? (
+          <div className="border-t border-zinc-800 px-5 py-4">
+            <label className="text-xs text-zinc-400">Reason for changing the soft-closed period</label>
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. late supplier invoice approved by the controller"
+              className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+            />
+          </div>
+        ) : (
+          <div className="border-t border-zinc-800 px-5 py-3 text-xs text-zinc-500">
+            Hard-closed periods cannot be changed. Reopen the period on the Close tab first.
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-end gap-2 border-t border-zinc-800 px-5 py-4">
+          <button
+            onClick={onCancel}
+            className="rounded-xl border border-zinc-800 bg-zinc-900/50 px-3 py-2 text-xs text-zinc-200 hover:border-zinc-700"
+          >
+            Cancel
+          </button>
+          {canOverride ? (
+            <button
+              onClick={() => onOverride(reason.trim())}
+              disabled={!reason.trim()}
+              className="rounded-xl border border-amber-800 bg-amber-950/30 px-3 py-2 text-xs text-amber-200 hover:border-amber-700 disabled:opacity-40"
+            >
+              Post as dated
+            </button>
+          ) : null}
+          <button
+            onClick={onRedirect}
+            disabled={!canRedirect}
+            className="rounded-xl border border-emerald-700 bg-emerald-900/30 px-3 py-2 text-xs font-medium text-emerald-200 hover:bg-emerald-900/40 disabled:opacity-40"
+          >
+            Move to next open period
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 "use client";
 
 import React, { useMemo, useState } from "react";
-import type { Account, Entity, JournalEntry } from "@/lib/types";
+import type { Account, Contact, Entity, JournalEntry } from "@/lib/types";
 import { Card, CardContent, CardHeader } from "./ui/Card";
 import { computeBalances, formatBalance } from "@/lib/journalEngine";
+import { correctEntry, isReversedPair, voidEntry } from "@/lib/corrections";
 import EntryInspectorModal from "./EntryInspectorModal";
+import AgingReport from "./AgingReport";
 
 function money(n: number) {
   return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
@@ -17,6 +19,24 @@ function monthKeyToday() {
   return `${yyyy}-${mm}`;
 }
 
+// "2026-02" -> "2026-02-28"; falls back to today for a malformed period
+function monthEndISO(yyyyMM: string) {
+  const [y, m] = yyyyMM.split("-").map(Number);
+  const d = y && m >= 1 && m <= 12 ? new Date(y, m, 0) : new Date();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+// Status chip for entries that are part of a correction.
+function statusLabel(e: JournalEntry) {
+  if (e.reversalOf) return "Reversal";
+  if (e.status === "void") return "Void";
+  if (e.status === "reversed") return "Corrected";
+  if (e.replaces) return "Correction";
+  return null;
+}
+
 function BalanceTable({
   title,
   balances,
@@ -58,6 +78,8 @@ export default function SavedLedgerPanel({
   accountsByEntity,
   journalEntries,
   setJournalEntries,
+  contacts,
+  vatRate,
 }: {
   entities: Entity[];
   activeEntityId: string;
@@ -65,26 +87,32 @@ export default function SavedLedgerPanel({
   accountsByEntity: Record<string, Account[]>;
   journalEntries: JournalEntry[];
   setJournalEntries: React.Dispatch<React.SetStateAction<JournalEntry[]>>;
+  contacts: Contact[];
+  vatRate: number; // for re-splitting VAT when a line's tax code changes
 }) {
   const [periodYYYYMM, setPeriodYYYYMM] = useState<string>(monthKeyToday());
   const [query, setQuery] = useState("");
+  const [showReversed, setShowReversed] = useState(false);
   const [inspectingId, setInspectingId] = useState<string | null>(null);
 
   const activeAccounts = accountsByEntity[activeEntityId] ?? [];
+  const contactNames = useMemo(() => new Map(contacts.map((c) => [c.id, c.name])), [contacts]);
 
   const filteredEntries = useMemo(() => {
     const q = query.trim().toLowerCase();
     return journalEntries
       .filter((e) => e.entityId === activeEntityId)
       .filter((e) => e.dateISO.slice(0, 7) === periodYYYYMM)
+      .filter((e) => showReversed || !isReversedPair(e))
       .filter((e) => {
         if (!q) return true;
-        const hay = `${e.memo} ${e.dateISO} ${e.currency}`.toLowerCase();
+        const contact = e.contactId ? contactNames.get(e.contactId) ?? "" : "";
+        const hay = `${e.memo} ${e.dateISO} ${e.currency} ${contact}`.toLowerCase();
         return hay.includes(q);
       })
       .slice()
       .sort((a, b) => b.dateISO.localeCompare(a.dateISO));
-  }, [journalEntries, activeEntityId, periodYYYYMM, query]);
+  }, [journalEntries, activeEntityId, periodYYYYMM, query, contactNames, showReversed]);
 
   const inspectingEntry = useMemo(
     () => journalEntries.find((e) => e.id === inspectingId) ?? null,
@@ -136,12 +164,17 @@ export default function SavedLedgerPanel({
               <input
                 value={query}
                 onChange={(e) => setQuery(e.target.value)}
-                placeholder="memo / date / currency"
+                placeholder="memo / date / currency / contact"
                 className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
               />
             </div>
           </div>
 
+          <label className="mt-3 flex items-center gap-2 text-xs text-zinc-400">
+            <input type="checkbox" checked={showReversed} onChange={(e) => setShowReversed(e.target.checked)} />
+            Show reversed entries and their reversals (corrections and voids)
+          </label>
+
           <div className="mt-4 rounded-2xl border border-zinc-800 overflow-hidden">
             <div className="grid grid-cols-12 bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">
               <div className="col-span-2">Date</div>
@@ -159,8 +192,14 @@ export default function SavedLedgerPanel({
                 <div key={e.id} className="grid grid-cols-12 items-center border-t border-zinc-800 px-4 py-2">
                   <div className="col-span-2 text-sm text-zinc-200">{e.dateISO}</div>
                   <div className="col-span-7">
-                    <div className="text-sm text-zinc-100 line-clamp-1">{e.memo}</div>
-                    <div className="text-xs text-zinc-500">{e.lines.length} lines</div>
+                    <div dir="auto" className="text-sm text-zinc-100 line-clamp-1">
+                      {e.memo}
+                    </div>
+                    <div className="text-xs text-zinc-500">
+                      {statusLabel(e) ? <span className="text-amber-300">{statusLabel(e)} • </span> : null}
+                      {e.lines.length} lines
+                      {e.contactId && contactNames.has(e.contactId) ? ` • ${contactNames.get(e.contactId)}` : ""}
+                    </div>
                   </div>
                   <div className="col-span-2 text-sm text-zinc-200">{e.currency}</div>
                   <div className="col-span-1 text-right">
@@ -181,6 +220,14 @@ export default function SavedLedgerPanel({
             <BalanceTable title={`Impact • Closing (${periodYYYYMM})`} balances={impact.closing} />
           </div>
 
+          <AgingReport
+            entries={journalEntries}
+            entityId={activeEntityId}
+            contacts={contacts}
+            asOfISO={monthEndISO(periodYYYYMM)}
+            onOpenEntry={setInspectingId}
+          />
+
           <div className="mt-4 text-xs text-zinc-500">
             Note: This impact is calculated from the filtered saved entries only (entity + period). If you want “all-time”
             balance sheet, use your Balance Sheet tab (we can wire it to include schedules too).
@@ -192,15 +239,18 @@ export default function SavedLedgerPanel({
         open={Boolean(inspectingId)}
         entry={inspectingEntry}
         accounts={activeAccounts}
+        contacts={contacts}
+        vatRate={vatRate}
         onClose={() => setInspectingId(null)}
         onDelete={(id) => {
-          setJournalEntries((prev) => prev.filter((x) => x.id !== id));
+          setJournalEntries((prev) => voidEntry(prev, id));
           setInspectingId(null);
         }}
         onSave={(updated) => {
-          setJournalEntries((prev) => prev.map((x) => (x.id === updated.id ? updated : x)));
+          setJournalEntries((prev) => correctEntry(prev, updated));
           setInspectingId(null);
         }}
+        onOpenEntry={setInspectingId}
       />
     </>
   );
@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useMemo } from "react";
+import type { Contact, ContactKind, JournalEntry } from "@/lib/types";
+import { Card, CardContent, CardHeader } from "./ui/Card";
+import { formatBalance } from "@/lib/journalEngine";
+import {
+  buildSubledgers,
+  CONTACT_KIND_LABELS,
+  resolveContact,
+  SUBLEDGER_ACCOUNTS,
+  type SubledgerRow,
+} from "@/lib/contacts";
+
+function money(n: number) {
+  return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function makeId() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+// A new contact from an unassigned A/R row is a customer, from A/P a vendor.
+const KIND_FOR_ACCOUNT: Record<string, ContactKind> = {
+  "Accounts Receivable": "customer",
+  "Accounts Payable": "vendor",
+};
+
+export default function SubledgerPanel({
+  activeEntityId,
+  contacts,
+  setContacts,
+  journalEntries,
+  setJournalEntries,
+}: {
+  activeEntityId: string;
+  contacts: Contact[];
+  setContacts: React.Dispatch<React.SetStateAction<Contact[]>>;
+  journalEntries: JournalEntry[];
+  setJournalEntries: React.Dispatch<React.SetStateAction<JournalEntry[]>>;
+}) {
+  const rows = useMemo(
+    () => buildSubledgers({ entries: journalEntries, entityId: activeEntityId, contacts }),
+    [journalEntries, activeEntityId, contacts]
+  );
+
+  const kindById = useMemo(() => new Map(contacts.map((c) => [c.id, c.kind])), [contacts]);
+
+  // Tags an unassigned counterparty's entries with its contact, creating the contact if it is new.
+  function addAsContact(row: SubledgerRow) {
+    const existing = resolveContact(row.name, contacts);
+    const contact: Contact = existing ?? {
+      id: makeId(),
+      name: row.name,
+      kind: KIND_FOR_ACCOUNT[row.account] ?? "customer",
+    };
+    if (!existing) setContacts((prev) => [...prev, contact]);
+    setJournalEntries((prev) => prev.map((e) => (row.entryIds.includes(e.id) ? { ...e, contactId: contact.id } : e)));
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader title="Subledgers" subtitle="Receivables and payables of the selected entity by contact, all dates." />
+      <CardContent>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          {SUBLEDGER_ACCOUNTS.map((account) => {
+            const accountRows = rows.filter((r) => r.account === account);
+            const total = accountRows.reduce((s, r) => s + r.balance, 0);
+            const t = formatBalance(total);
+            return (
+              <div key={account} className="overflow-hidden rounded-2xl border border-zinc-800">
+                <div className="flex items-center justify-between bg-zinc-950/40 px-4 py-3">
+                  <div className="text-sm font-medium text-zinc-100">{account}</div>
+                  <div className="text-xs text-zinc-400">
+                    {money(t.amount)} {t.side}
+                  </div>
+                </div>
+
+                {accountRows.length === 0 ? (
+                  <div className="border-t border-zinc-800 px-4 py-3 text-sm text-zinc-500">No open items.</div>
+                ) : (
+                  accountRows.map((r) => {
+                    const f = formatBalance(r.balance);
+                    return (
+                      <div
+                        key={`${r.contactId ?? "text"}-${r.name}`}
+                        className="grid grid-cols-12 items-center gap-2 border-t border-zinc-800 px-4 py-2 text-sm"
+                      >
+                        <div className="col-span-6 min-w-0">
+                          <div dir="auto" className="truncate text-zinc-100">
+                            {r.name || "No counterparty"}
+                          </div>
+                          <div className="text-xs text-zinc-500">
+                            {r.contactId ? CONTACT_KIND_LABELS[kindById.get(r.contactId) ?? "customer"] : "Unassigned"} •{" "}
+                            {r.entryIds.length} entries
+                          </div>
+                        </div>
+                        <div className="col-span-3 text-right text-zinc-200">
+                          {money(f.amount)} {f.side}
+                        </div>
+                        <div className="col-span-3 text-right">
+                          {!r.contactId && r.name ? (
+                            <button
+                              type="button"
+                              onClick={() => addAsContact(r)}
+                              className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-2 py-1 text-xs text-zinc-200 hover:border-zinc-700"
+                              title="Add to contacts and assign these entries"
+                            >
+                              + Contact
+                            </button>
+                          ) : null}
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,17 @@ const ACTIONS: { kind: ActionKind; label: string; hint: string }[] = [
   { kind: "lend", label: "Lend", hint: "Create loan receivable entry" },
   { kind: "buy", label: "Buy", hint: "Expense + optional VAT" },
   { kind: "sell", label: "Sell", hint: "Revenue + optional VAT" },
+  { kind: "transfer", label: "Transfer", hint: "Move funds between cash/bank accounts" },
+  { kind: "contribute", label: "Owner capital", hint: "Fund the entity" },
+  { kind: "draw", label: "Drawings", hint: "Owner withdrawal" },
+  { kind: "declare_dividend", label: "Declare dividend", hint: "Retained earnings to payable" },
+  { kind: "pay_dividend", label: "Pay dividend", hint: "Clear dividends payable" },
+  { kind: "sales_return", label: "Sales return", hint: "Reverse revenue + VAT" },
+  { kind: "purchase_return", label: "Purchase refund", hint: "Reverse expense + VAT" },
+  { kind: "collect", label: "Collect", hint: "Clear accounts receivable" },
+  { kind: "settle", label: "Settle", hint: "Clear accounts payable" },
+  { kind: "repay", label: "Repay loan", hint: "Reduce loan payable" },
+  { kind: "collect_loan", label: "Collect loan", hint: "Reduce loan receivable" },
 ];
 
 export default function SuggestionChips({
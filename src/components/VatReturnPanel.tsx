@@ -0,0 +1,299 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { Account, Contact, Entity, JournalEntry } from "@/lib/types";
+import { Card, CardContent, CardHeader } from "./ui/Card";
+import {
+  buildVatReturn,
+  buildVatSettlementEntry,
+  vatSettlementMemo,
+  VAT_PAYABLE_ACCOUNT,
+  type VatBox,
+} from "@/lib/vatReturnEngine";
+import EntryInspectorModal from "./EntryInspectorModal";
+import { correctEntry, isActiveEntry, postEntries, voidEntry } from "@/lib/corrections";
+
+function money(n: number) {
+  return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function isoDate(d: Date) {
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+// Current calendar quarter, the usual UAE tax period.
+function currentQuarter() {
+  const d = new Date();
+  const q = Math.floor(d.getMonth() / 3);
+  return {
+    from: isoDate(new Date(d.getFullYear(), q * 3, 1)),
+    to: isoDate(new Date(d.getFullYear(), q * 3 + 3, 0)),
+  };
+}
+
+function BoxTable({
+  title,
+  boxes,
+  selected,
+  onSelect,
+}: {
+  title: string;
+  boxes: VatBox[];
+  selected: string | null;
+  onSelect: (b: VatBox) => void;
+}) {
+  return (
+    <div className="overflow-hidden rounded-2xl border border-zinc-800">
+      <div className="bg-zinc-950/40 px-4 py-3 text-sm font-medium text-zinc-100">{title}</div>
+      <div className="grid grid-cols-12 bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">
+        <div className="col-span-1">Box</div>
+        <div className="col-span-6">Description</div>
+        <div className="col-span-3 text-right">Amount (AED)</div>
+        <div className="col-span-2 text-right">VAT (AED)</div>
+      </div>
+      {boxes.map((b) => (
+        <button
+          key={b.box}
+          type="button"
+          onClick={() => onSelect(b)}
+          disabled={!b.entryIds.length}
+          className={[
+            "grid w-full grid-cols-12 border-t border-zinc-800 px-4 py-2 text-left text-sm disabled:cursor-default",
+            selected === b.box ? "bg-emerald-900/20" : "hover:bg-zinc-900/40 disabled:hover:bg-transparent",
+          ].join(" ")}
+        >
+          <div className="col-span-1 text-zinc-400">{b.box}</div>
+          <div className={["col-span-6", b.label === "Totals" ? "font-medium text-zinc-100" : "text-zinc-200"].join(" ")}>
+            {b.label}
+            {b.entryIds.length ? <span className="ml-2 text-xs text-zinc-500">{b.entryIds.length} entries</span> : null}
+          </div>
+          <div className="col-span-3 text-right text-zinc-200">{money(b.amount)}</div>
+          <div className="col-span-2 text-right text-zinc-200">{money(b.vat)}</div>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function VatReturnPanel({
+  entities,
+  activeEntityId,
+  setActiveEntityId,
+  accountsByEntity,
+  journalEntries,
+  setJournalEntries,
+  contacts,
+  vatRate,
+}: {
+  entities: Entity[];
+  activeEntityId: string;
+  setActiveEntityId: (id: string) => void;
+  accountsByEntity: Record<string, Account[]>;
+  journalEntries: JournalEntry[];
+  setJournalEntries: React.Dispatch<React.SetStateAction<JournalEntry[]>>;
+  contacts: Contact[];
+  vatRate: number;
+}) {
+  const [range, setRange] = useState(currentQuarter);
+  const [selectedBox, setSelectedBox] = useState<string | null>(null);
+  const [inspectingId, setInspectingId] = useState<string | null>(null);
+
+  const activeEntity = entities.find((e) => e.id === activeEntityId);
+  const activeAccounts = accountsByEntity[activeEntityId] ?? [];
+  const hasPayableAccount = activeAccounts.some((a) => a.name === VAT_PAYABLE_ACCOUNT);
+
+  const ret = useMemo(
+    () =>
+      buildVatReturn({
+        entries: journalEntries,
+        entity: activeEntity,
+        entityId: activeEntityId,
+        fromISO: range.from,
+        toISO: range.to,
+      }),
+    [journalEntries, activeEntity, activeEntityId, range]
+  );
+
+  const drillBox = [...ret.sales, ...ret.expenses].find((b) => b.box === selectedBox) ?? null;
+  const drillEntries = useMemo(() => {
+    if (!drillBox) return [];
+    return journalEntries
+      .filter((e) => drillBox.entryIds.includes(e.id))
+      .slice()
+      .sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+  }, [journalEntries, drillBox]);
+
+  const alreadySettled = journalEntries.some(
+    (e) =>
+      e.entityId === activeEntityId &&
+      isActiveEntry(e) &&
+      e.memo === vatSettlementMemo({ fromISO: range.from, toISO: range.to })
+  );
+
+  const inspectingEntry = useMemo(
+    () => journalEntries.find((e) => e.id === inspectingId) ?? null,
+    [journalEntries, inspectingId]
+  );
+
+  function postSettlement() {
+    const entry = buildVatSettlementEntry(ret, range.to);
+    if (!entry) return;
+    setJournalEntries((prev) => [...prev, ...postEntries([entry])]);
+  }
+
+  return (
+    <>
+      <Card className="mt-6">
+        <CardHeader
+          title="VAT Return (VAT201)"
+          subtitle="FTA return boxes for the active entity, built from the tax codes on saved entries. Click a box to see its entries."
+        />
+        <CardContent>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+            <div className="md:col-span-2">
+              <label className="text-xs text-zinc-400">Entity</label>
+              <select
+                value={activeEntityId}
+                onChange={(e) => {
+                  setActiveEntityId(e.target.value);
+                  setSelectedBox(null);
+                }}
+                className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+              >
+                {entities.map((e) => (
+                  <option key={e.id} value={e.id}>
+                    {e.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-xs text-zinc-400">From</label>
+              <input
+                type="date"
+                value={range.from}
+                onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))}
+                className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+              />
+            </div>
+
+            <div>
+              <label className="text-xs text-zinc-400">To</label>
+              <input
+                type="date"
+                value={range.to}
+                onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))}
+                className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700"
+              />
+            </div>
+          </div>
+
+          {ret.foreignEntryIds.length ? (
+            <div className="mt-4 rounded-xl border border-amber-800 bg-amber-950/20 px-3 py-2 text-xs text-amber-200">
+              {ret.foreignEntryIds.length} taxed entries are not in AED and are included at face value. Convert them
+              before filing.
+            </div>
+          ) : null}
+
+          <div className="mt-4 grid grid-cols-1 gap-4">
+            <BoxTable
+              title="VAT on sales and all other outputs"
+              boxes={ret.sales}
+              selected={selectedBox}
+              onSelect={(b) => setSelectedBox((cur) => (cur === b.box ? null : b.box))}
+            />
+            <BoxTable
+              title="VAT on expenses and all other inputs"
+              boxes={ret.expenses}
+              selected={selectedBox}
+              onSelect={(b) => setSelectedBox((cur) => (cur === b.box ? null : b.box))}
+            />
+          </div>
+
+          {drillBox ? (
+            <div className="mt-4 rounded-2xl border border-zinc-800 bg-zinc-950/30 p-4">
+              <div className="text-sm font-medium text-zinc-100">
+                Box {drillBox.box} • {drillBox.label}
+              </div>
+              <div className="mt-3 space-y-1">
+                {drillEntries.map((e) => (
+                  <div key={e.id} className="flex items-center justify-between gap-3">
+                    <div className="min-w-0 text-xs text-zinc-300">
+                      <span className="text-zinc-500">{e.dateISO}</span>{" "}
+                      <span dir="auto" className="text-zinc-100">
+                        {e.memo}
+                      </span>{" "}
+                      • {e.currency}
+                    </div>
+                    <button
+                      onClick={() => setInspectingId(e.id)}
+                      className="shrink-0 rounded-xl border border-zinc-800 bg-zinc-900/40 px-3 py-1 text-xs text-zinc-200 hover:border-zinc-700"
+                    >
+                      Open
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          <div className="mt-4 rounded-2xl border border-zinc-800 bg-zinc-950/30 p-4">
+            <div className="grid grid-cols-12 text-sm">
+              <div className="col-span-1 text-zinc-400">12</div>
+              <div className="col-span-8 text-zinc-200">Total value of due tax for the period</div>
+              <div className="col-span-3 text-right text-zinc-200">{money(ret.dueTax)}</div>
+              <div className="col-span-1 mt-1 text-zinc-400">13</div>
+              <div className="col-span-8 mt-1 text-zinc-200">Total value of recoverable tax for the period</div>
+              <div className="col-span-3 mt-1 text-right text-zinc-200">{money(ret.recoverableTax)}</div>
+              <div className="col-span-1 mt-1 text-zinc-400">14</div>
+              <div className="col-span-8 mt-1 font-medium text-zinc-100">
+                {ret.netPayable < 0 ? "Refundable tax for the period" : "Payable tax for the period"}
+              </div>
+              <div className="col-span-3 mt-1 text-right font-medium text-zinc-100">{money(Math.abs(ret.netPayable))}</div>
+            </div>
+
+            <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+              {!hasPayableAccount ? (
+                <div className="text-xs text-amber-300">Add a “{VAT_PAYABLE_ACCOUNT}” account to post the settlement.</div>
+              ) : alreadySettled ? (
+                <div className="text-xs text-zinc-500">Settlement already posted for this period.</div>
+              ) : null}
+              <button
+                onClick={postSettlement}
+                disabled={!hasPayableAccount || alreadySettled || (!ret.dueTax && !ret.recoverableTax)}
+                className="rounded-xl border border-emerald-700 bg-emerald-900/30 px-4 py-2 text-xs font-medium text-emerald-200 hover:bg-emerald-900/40 disabled:opacity-40"
+              >
+                Post settlement entry
+              </button>
+            </div>
+            <div className="mt-2 text-right text-xs text-zinc-500">
+              Dr Output VAT, Cr Input VAT, net to {VAT_PAYABLE_ACCOUNT} on {range.to}.
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <EntryInspectorModal
+        open={Boolean(inspectingId)}
+        entry={inspectingEntry}
+        accounts={activeAccounts}
+        contacts={contacts}
+        vatRate={vatRate}
+        onClose={() => setInspectingId(null)}
+        onDelete={(id) => {
+          setJournalEntries((prev) => voidEntry(prev, id));
+          setInspectingId(null);
+        }}
+        onSave={(updated) => {
+          setJournalEntries((prev) => correctEntry(prev, updated));
+          setInspectingId(null);
+        }}
+        onOpenEntry={setInspectingId}
+      />
+    </>
+  );
+}
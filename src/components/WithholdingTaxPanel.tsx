@@ -0,0 +1,185 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { Account, Contact, Entity, JournalEntry } from "@/lib/types";
+import { Card, CardContent, CardHeader } from "./ui/Card";
+import {
+  buildWithholdingReport,
+  buildWithholdingSettlementEntry,
+  withholdingSettlementMemo,
+  WHT_PAYABLE_ACCOUNT,
+} from "@/lib/withholdingEngine";
+import { isActiveEntry, postEntries } from "@/lib/corrections";
+
+function money(n: number) {
+  return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// 0.05 -> "5%", 0.025 -> "2.5%"
+function pct(rate: number) {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+function isoDate(d: Date) {
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+// Current calendar month: withholding is usually remitted monthly.
+function currentMonth() {
+  const d = new Date();
+  return {
+    from: isoDate(new Date(d.getFullYear(), d.getMonth(), 1)),
+    to: isoDate(new Date(d.getFullYear(), d.getMonth() + 1, 0)),
+  };
+}
+
+const inputClass =
+  "w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700";
+
+export default function WithholdingTaxPanel({
+  entity,
+  accounts,
+  contacts,
+  journalEntries,
+  setJournalEntries,
+}: {
+  entity: Entity | null;
+  accounts: Account[];
+  contacts: Contact[];
+  journalEntries: JournalEntry[];
+  setJournalEntries: React.Dispatch<React.SetStateAction<JournalEntry[]>>;
+}) {
+  const [range, setRange] = useState(currentMonth);
+
+  const report = useMemo(() => {
+    if (!entity) return null;
+    return buildWithholdingReport({
+      entries: journalEntries,
+      entityId: entity.id,
+      contacts,
+      fromISO: range.from,
+      toISO: range.to,
+    });
+  }, [entity, journalEntries, contacts, range]);
+
+  if (!entity || !report) return null;
+
+  const cashAccount = entity.defaultCashAccount || "Cash";
+  const hasPayableAccount = accounts.some((a) => a.name === WHT_PAYABLE_ACCOUNT);
+  const alreadySettled = journalEntries.some(
+    (e) =>
+      e.entityId === entity.id &&
+      isActiveEntry(e) &&
+      e.memo === withholdingSettlementMemo({ fromISO: range.from, toISO: range.to })
+  );
+
+  function postSettlement() {
+    if (!entity || !report) return;
+    const entry = buildWithholdingSettlementEntry(report, entity);
+    if (!entry) return;
+    setJournalEntries((prev) => [...prev, ...postEntries([entry])]);
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader
+        title="Withholding Tax"
+        subtitle={`Tax held back from vendor payments by ${entity.name}, by vendor and month. Say "less 5% WHT" or set a rate on the contact.`}
+      />
+      <CardContent>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <div>
+            <label className="text-xs text-zinc-400">From</label>
+            <input
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))}
+              className={["mt-2", inputClass].join(" ")}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-400">To</label>
+            <input
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))}
+              className={["mt-2", inputClass].join(" ")}
+            />
+          </div>
+        </div>
+
+        <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+          <div className="grid grid-cols-12 gap-2 bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">
+            <div className="col-span-4">Vendor</div>
+            <div className="col-span-2">Period</div>
+            <div className="col-span-2 text-right">Rate</div>
+            <div className="col-span-2 text-right">Gross</div>
+            <div className="col-span-2 text-right">Withheld</div>
+          </div>
+
+          {report.rows.length === 0 ? (
+            <div className="border-t border-zinc-800 px-4 py-3 text-sm text-zinc-500">
+              Nothing withheld in this period.
+            </div>
+          ) : (
+            report.rows.map((r) => (
+              <div
+                key={`${r.contactId ?? r.name}-${r.period}`}
+                className="grid grid-cols-12 gap-2 border-t border-zinc-800 px-4 py-2 text-sm"
+              >
+                <div className="col-span-4 min-w-0">
+                  <div dir="auto" className="truncate text-zinc-100">
+                    {r.name || "No counterparty"}
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    {r.contactId ? "Contact" : "Unassigned"} • {r.entryIds.length} entries
+                  </div>
+                </div>
+                <div className="col-span-2 text-zinc-300">{r.period}</div>
+                <div className="col-span-2 text-right text-zinc-300">
+                  {r.rates.length ? r.rates.map(pct).join(", ") : "—"}
+                </div>
+                <div className="col-span-2 text-right text-zinc-200">{money(r.gross)}</div>
+                <div className="col-span-2 text-right text-zinc-100">{money(r.withheld)}</div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="mt-4 rounded-2xl border border-zinc-800 bg-zinc-950/30 p-4">
+          <div className="grid grid-cols-12 text-sm">
+            <div className="col-span-9 text-zinc-200">Withheld in the period</div>
+            <div className="col-span-3 text-right text-zinc-200">{money(report.withheld)}</div>
+            <div className="col-span-9 mt-1 text-zinc-200">Remitted in the period</div>
+            <div className="col-span-3 mt-1 text-right text-zinc-200">{money(report.remitted)}</div>
+            <div className="col-span-9 mt-1 font-medium text-zinc-100">
+              Outstanding {WHT_PAYABLE_ACCOUNT} at {range.to}
+            </div>
+            <div className="col-span-3 mt-1 text-right font-medium text-zinc-100">{money(report.outstanding)}</div>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+            {!hasPayableAccount ? (
+              <div className="text-xs text-amber-300">Add a “{WHT_PAYABLE_ACCOUNT}” account to post the settlement.</div>
+            ) : alreadySettled ? (
+              <div className="text-xs text-zinc-500">Remittance already posted for this period.</div>
+            ) : null}
+            <button
+              onClick={postSettlement}
+              disabled={!hasPayableAccount || alreadySettled || report.outstanding <= 0}
+              className="rounded-xl border border-emerald-700 bg-emerald-900/30 px-4 py-2 text-xs font-medium text-emerald-200 hover:bg-emerald-900/40 disabled:opacity-40"
+            >
+              Post settlement entry
+            </button>
+          </div>
+          <div className="mt-2 text-right text-xs text-zinc-500">
+            Dr {WHT_PAYABLE_ACCOUNT}, Cr {cashAccount} on {range.to}.
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
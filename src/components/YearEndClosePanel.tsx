@@ -0,0 +1,273 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { Account, Entity, JournalEntry, YearEndClose } from "@/lib/types";
+import { Card, CardContent, CardHeader } from "./ui/Card";
+import { formatBalance } from "@/lib/journalEngine";
+import { postEntries, voidEntry } from "@/lib/corrections";
+import { PERIOD_STATUS_LABELS, periodStatusOf } from "@/lib/periodClose";
+import { buildYearEndCloseEntry, computeYearEndClose, RETAINED_EARNINGS_ACCOUNT } from "@/lib/yearEndClose";
+
+function money(n: number) {
+  return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function balanceText(n: number) {
+  const b = formatBalance(n);
+  return b.amount ? `${b.side} ${money(b.amount)}` : "—";
+}
+
+// Last calendar year: the one usually being closed.
+function lastYear() {
+  const y = new Date().getFullYear() - 1;
+  return { from: `${y}-01-01`, to: `${y}-12-31` };
+}
+
+const inputClass =
+  "w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm outline-none focus:border-zinc-700";
+
+/** Zeroes a year's income and expenses into retained earnings and carries the balance sheet forward. */
+export default function YearEndClosePanel({
+  entity,
+  setEntities,
+  accounts,
+  journalEntries,
+  setJournalEntries,
+  actor,
+}: {
+  entity: Entity | null;
+  setEntities: React.Dispatch<React.SetStateAction<Entity[]>>;
+  accounts: Account[];
+  journalEntries: JournalEntry[];
+  setJournalEntries: React.Dispatch<React.SetStateAction<JournalEntry[]>>;
+  actor: string;
+}) {
+  const [range, setRange] = useState(lastYear);
+
+  const plan = useMemo(() => {
+    if (!entity || !range.from || !range.to) return null;
+    return computeYearEndClose({ entity, accounts, entries: journalEntries, fromISO: range.from, toISO: range.to });
+  }, [entity, accounts, journalEntries, range]);
+
+  if (!entity || !plan) return null;
+
+  const closes = (entity.yearEndCloses ?? []).slice().sort((a, b) => b.toISO.localeCompare(a.toISO));
+  const record = closes.find((c) => c.fromISO === range.from && c.toISO === range.to);
+  const overlapping = record ? undefined : closes.find((c) => c.fromISO <= range.to && c.toISO >= range.from);
+  const yearEndStatus = periodStatusOf(entity, range.to);
+  const hasRetainedEarnings = accounts.some((a) => a.name === RETAINED_EARNINGS_ACCOUNT);
+  // entries posted into the year after it was closed
+  const drift = record ? Math.abs(record.netIncome - plan.netIncome) >= 0.005 : false;
+  const openingBalances = record?.openingBalances ?? plan.openingBalances;
+
+  function addRecord(entryId?: string) {
+    if (!entity || !plan) return;
+    const close: YearEndClose = {
+      fromISO: plan.fromISO,
+      toISO: plan.toISO,
+      netIncome: plan.netIncome,
+      entryId,
+      openingBalances: plan.openingBalances,
+      closedAt: new Date().toISOString(),
+      closedBy: actor,
+    };
+    setEntities((prev) =>
+      prev.map((e) => (e.id === entity.id ? { ...e, yearEndCloses: [...(e.yearEndCloses ?? []), close] } : e))
+    );
+  }
+
+  function postClose() {
+    if (!entity || !plan) return;
+    const entry = buildYearEndCloseEntry(plan, entity);
+    if (!entry) return;
+    setJournalEntries((prev) => [...prev, ...postEntries([entry])]);
+    addRecord(entry.id);
+  }
+
+  // Voids the closing entry (a reversal on the same date) and forgets this entity's close of the year.
+  function reopen() {
+    if (!entity || !record) return;
+    const entityId = entity.id;
+    const { entryId, toISO } = record;
+    if (entryId) {
+      setJournalEntries((prev) =>
+        prev.some((e) => e.id === entryId && e.entityId === entityId) ? voidEntry(prev, entryId) : prev
+      );
+    }
+    setEntities((prev) =>
+      prev.map((e) =>
+        e.id === entityId ? { ...e, yearEndCloses: (e.yearEndCloses ?? []).filter((c) => c.toISO !== toISO) } : e
+      )
+    );
+  }
+
+  const blocked = !hasRetainedEarnings
+    ? `Add a “${RETAINED_EARNINGS_ACCOUNT}” account to close the year.`
+    : overlapping
+      ? `Overlaps the close of ${overlapping.fromISO} – ${overlapping.toISO}.`
+      : null;
+  const postBlocked =
+    yearEndStatus !== "open"
+      ? `${range.to} is ${PERIOD_STATUS_LABELS[yearEndStatus].toLowerCase()}: reopen it to post, or close virtually.`
+      : null;
+  const reopenBlocked =
+    record?.entryId && yearEndStatus !== "open"
+      ? `${range.to} is ${PERIOD_STATUS_LABELS[yearEndStatus].toLowerCase()}: reopen it before reopening the year.`
+      : null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader
+        title="Year-End Close"
+        subtitle={`Zero ${entity.name}'s income and expenses into ${RETAINED_EARNINGS_ACCOUNT} and carry the balance sheet into the next year.`}
+      />
+      <CardContent>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <div>
+            <label className="text-xs text-zinc-400">From</label>
+            <input
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))}
+              className={["mt-2", inputClass].join(" ")}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-400">To</label>
+            <input
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))}
+              className={["mt-2", inputClass].join(" ")}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="text-xs text-zinc-400">Status</label>
+            <div className="mt-2 py-2 text-sm">
+              {record ? (
+                <span className="text-emerald-300">
+                  Closed {record.entryId ? "with a closing entry" : "virtually (reporting only)"} on{" "}
+                  {record.closedAt.slice(0, 10)} by {record.closedBy ?? "—"}
+                </span>
+              ) : (
+                <span className="text-zinc-300">Open</span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+          <div className="grid grid-cols-12 gap-2 bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">
+            <div className="col-span-6">Account</div>
+            <div className="col-span-3">Type</div>
+            <div className="col-span-3 text-right">Closed out</div>
+          </div>
+          {plan.rows.length === 0 ? (
+            <div className="border-t border-zinc-800 px-4 py-3 text-sm text-zinc-500">
+              No income or expenses in this year.
+            </div>
+          ) : (
+            plan.rows.map((r) => (
+              <div key={r.account} className="grid grid-cols-12 gap-2 border-t border-zinc-800 px-4 py-2 text-sm">
+                <div className="col-span-6 text-zinc-100">{r.account}</div>
+                <div className="col-span-3 text-zinc-400">{r.type}</div>
+                <div className="col-span-3 text-right text-zinc-200">{balanceText(-r.balance)}</div>
+              </div>
+            ))
+          )}
+          <div className="grid grid-cols-12 gap-2 border-t border-zinc-800 px-4 py-2 text-sm">
+            <div className="col-span-9 font-medium text-zinc-100">
+              Net {plan.netIncome < 0 ? "loss" : "income"} to {RETAINED_EARNINGS_ACCOUNT}
+            </div>
+            <div className="col-span-3 text-right font-medium text-zinc-100">{money(plan.netIncome)}</div>
+          </div>
+        </div>
+
+        {drift && record ? (
+          <div className="mt-2 text-xs text-amber-300">
+            Closed at {money(record.netIncome)}; entries posted since bring it to {money(plan.netIncome)}. Reopen the
+            year and close it again.
+          </div>
+        ) : null}
+
+        <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+          {blocked && !record ? <div className="text-xs text-amber-300">{blocked}</div> : null}
+          {!blocked && !record && postBlocked ? <div className="text-xs text-zinc-500">{postBlocked}</div> : null}
+          {reopenBlocked ? <div className="text-xs text-amber-300">{reopenBlocked}</div> : null}
+          {record ? (
+            <button
+              onClick={reopen}
+              disabled={Boolean(reopenBlocked)}
+              className="rounded-xl border border-zinc-800 bg-zinc-900/50 px-4 py-2 text-xs text-zinc-200 hover:border-zinc-700 disabled:opacity-40"
+            >
+              Reopen year
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => addRecord()}
+                disabled={Boolean(blocked)}
+                className="rounded-xl border border-zinc-800 bg-zinc-900/50 px-4 py-2 text-xs text-zinc-200 hover:border-zinc-700 disabled:opacity-40"
+              >
+                Close virtually
+              </button>
+              <button
+                onClick={postClose}
+                disabled={Boolean(blocked || postBlocked) || !plan.rows.length}
+                className="rounded-xl border border-emerald-700 bg-emerald-900/30 px-4 py-2 text-xs font-medium text-emerald-200 hover:bg-emerald-900/40 disabled:opacity-40"
+              >
+                Post closing entry
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+          <div className="grid grid-cols-12 gap-2 bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">
+            <div className="col-span-8">
+              Opening balances on {plan.openingDateISO}
+              {record ? " (used by balances and consolidation from then on)" : ""}
+            </div>
+            <div className="col-span-4 text-right">Balance</div>
+          </div>
+          {Object.keys(openingBalances).length === 0 ? (
+            <div className="border-t border-zinc-800 px-4 py-3 text-sm text-zinc-500">No balances to carry forward.</div>
+          ) : (
+            Object.entries(openingBalances)
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([account, balance]) => (
+                <div key={account} className="grid grid-cols-12 gap-2 border-t border-zinc-800 px-4 py-2 text-sm">
+                  <div className="col-span-8 text-zinc-100">{account}</div>
+                  <div className="col-span-4 text-right text-zinc-200">{balanceText(balance)}</div>
+                </div>
+              ))
+          )}
+        </div>
+
+        {closes.length ? (
+          <div className="mt-4 overflow-hidden rounded-2xl border border-zinc-800">
+            <div className="grid grid-cols-12 gap-2 bg-zinc-950/20 px-4 py-2 text-xs text-zinc-400">
+              <div className="col-span-4">Closed years</div>
+              <div className="col-span-3">How</div>
+              <div className="col-span-5 text-right">Net income</div>
+            </div>
+            {closes.map((c) => (
+              <button
+                key={c.toISO}
+                type="button"
+                onClick={() => setRange({ from: c.fromISO, to: c.toISO })}
+                className="grid w-full grid-cols-12 gap-2 border-t border-zinc-800 px-4 py-2 text-left text-sm hover:bg-zinc-900/40"
+              >
+                <div className="col-span-4 text-zinc-200">
+                  {c.fromISO} – {c.toISO}
+                </div>
+                <div className="col-span-3 text-zinc-400">{c.entryId ? "Closing entry" : "Virtual"}</div>
+                <div className="col-span-5 text-right text-zinc-200">{money(c.netIncome)}</div>
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import type { AccountCandidate } from "./types";
+import { foldArabic } from "./arabicText";
+
+// Fuzzy account lookup for parsed categories ("marketing costs", "office supply",
+// "advertising") against a strict chart. Scores are 0-1:
+//   exact name 1, synonym 0.95, otherwise token similarity (plurals folded,
+//   stop-words dropped, small typos forgiven via edit distance).
+
+export const ACCOUNT_MATCH_THRESHOLD = 0.85; // post automatically at or above
+export const ACCOUNT_SUGGEST_THRESHOLD = 0.5; // "did you mean ..." between the two
+
+const STOP_WORDS = new Set(["the", "a", "an", "of", "for", "on", "and", "to", "in", "my", "our", "some"]);
+
+// Words that say "this is an account" rather than which one.
+const GENERIC_WORDS = new Set(["expense", "cost", "account", "exp"]);
+
+const SYNONYM_SCORE = 0.95;
+const MAX_FUZZY_SCORE = 0.99;
+
+type ChartEntry = { name: string; tokens: string[]; synonyms: string[][] };
+
+export type AccountChart = {
+  byKey: Map<string, string>; // trimmed lowercase name -> chart name
+  entries: ChartEntry[];
+};
+
+function normalizeKey(s: string) {
+  return s.trim().toLowerCase();
+}
+
+function singular(w: string) {
+  if (w.length > 4 && w.endsWith("ies")) return w.slice(0, -3) + "y";
+  if (w.length > 4 && /(?:ss|sh|ch|x)es$/.test(w)) return w.slice(0, -2);
+  if (w.length > 3 && w.endsWith("s") && !w.endsWith("ss")) return w.slice(0, -1);
+  return w;
+}
+
+// Arabic: the attached article carries no meaning for matching ("الإيجار" ~ "إيجار").
+function stripArticle(w: string) {
+  return w.length > 4 && /^(?:ال|لل)/.test(w) ? w.slice(2) : w;
+}
+
+function tokenize(s: string): string[] {
+  return foldArabic(s)
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0600-\u06ff]+/g, " ")
+    .split(" ")
+    .filter((w) => w && !STOP_WORDS.has(w))
+    .map((w) => stripArticle(singular(w)));
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+function wordSimilarity(a: string, b: string) {
+  if (a === b) return 1;
+  const sim = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  return sim >= 0.75 ? sim : 0; // "ofice" ~ "office", but not "rent" ~ "current"
+}
+
+// Symmetric best-match overlap of two token sets.
+function tokenSetSimilarity(a: string[], b: string[]) {
+  if (!a.length || !b.length) return 0;
+  const best = (from: string[], to: string[]) =>
+    from.reduce((acc, w) => acc + Math.max(...to.map((x) => wordSimilarity(w, x))), 0);
+  return (best(a, b) + best(b, a)) / (a.length + b.length);
+}
+
+function core(tokens: string[]) {
+  const c = tokens.filter((w) => !GENERIC_WORDS.has(w));
+  return c.length ? c : tokens;
+}
+
+function phraseSimilarity(query: string[], target: string[]) {
+  return 0.75 * tokenSetSimilarity(core(query), core(target)) + 0.25 * tokenSetSimilarity(query, target);
+}
+
+export function buildAccountChart(names: string[], synonyms?: Record<string, string[]>): AccountChart {
+  return {
+    byKey: new Map(names.map((n) => [normalizeKey(n), n] as const)),
+    entries: names.map((name) => ({
+      name,
+      tokens: tokenize(name),
+      synonyms: (synonyms?.[name] ?? []).map(tokenize).filter((t) => t.length),
+    })),
+  };
+}
+
+/** Best candidates first; only those at or above ACCOUNT_SUGGEST_THRESHOLD. */
+export function rankAccountCandidates(candidate: string | undefined, chart: AccountChart, limit = 3): AccountCandidate[] {
+  if (!candidate?.trim()) return [];
+
+  const exact = chart.byKey.get(normalizeKey(candidate));
+  if (exact) return [{ account: exact, score: 1, via: "exact" }];
+
+  const query = tokenize(candidate);
+  if (!query.length) return [];
+
+  const ranked: AccountCandidate[] = [];
+  for (const entry of chart.entries) {
+    const nameScore = Math.min(MAX_FUZZY_SCORE, phraseSimilarity(query, entry.tokens));
+    const synScore = entry.synonyms.reduce((acc, syn) => Math.max(acc, phraseSimilarity(query, syn) * SYNONYM_SCORE), 0);
+    const score = Math.round(Math.max(nameScore, synScore) * 100) / 100;
+    if (score >= ACCOUNT_SUGGEST_THRESHOLD) {
+      ranked.push({ account: entry.name, score, via: synScore > nameScore ? "synonym" : "fuzzy" });
+    }
+  }
+
+  return ranked.sort((a, b) => b.score - a.score || a.account.localeCompare(b.account)).slice(0, limit);
+}
+
+/** The chart account to post to, or null when nothing is confident enough. */
+export function matchAccount(candidate: string | undefined, chart: AccountChart): AccountCandidate | null {
+  const top = rankAccountCandidates(candidate, chart, 1)[0];
+  return top && top.score >= ACCOUNT_MATCH_THRESHOLD ? top : null;
+}
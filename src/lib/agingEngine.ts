@@ -0,0 +1,169 @@
+import type { Contact, JournalEntry } from "./types";
+import { counterpartyOf, SUBLEDGER_ACCOUNTS } from "./contacts";
+import { isReversedPair } from "./corrections";
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+export type AgingBucket = "current" | "d1_30" | "d31_60" | "d61_90" | "d90_plus";
+
+export const AGING_BUCKETS: { id: AgingBucket; label: string }[] = [
+  { id: "current", label: "Current" },
+  { id: "d1_30", label: "1–30" },
+  { id: "d31_60", label: "31–60" },
+  { id: "d61_90", label: "61–90" },
+  { id: "d90_plus", label: "90+" },
+];
+
+// An invoice (or bill) with what is still open after FIFO matching.
+export type OpenItem = {
+  entryId: string;
+  dateISO: string;
+  dueISO: string;
+  amount: number;
+  open: number;
+  daysPastDue: number; // 0 or less: not yet due
+  bucket: AgingBucket;
+  settledBy: string[]; // payment / credit note entry ids applied to it
+};
+
+export type AgingRow = {
+  account: string; // control account
+  contactId?: string;
+  name: string;
+  termsDays: number;
+  buckets: Record<AgingBucket, number>;
+  total: number; // open invoices less unapplied credit
+  unapplied: number; // payments / credit notes with no invoice left to settle
+  items: OpenItem[];
+};
+
+function dayNumber(iso: string) {
+  const [y, m, d] = iso.split("-").map(Number);
+  return Math.floor(Date.UTC(y, m - 1, d) / 86_400_000);
+}
+
+function addDays(iso: string, days: number) {
+  const [y, m, d] = iso.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+function bucketFor(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return "current";
+  if (daysPastDue <= 30) return "d1_30";
+  if (daysPastDue <= 60) return "d31_60";
+  if (daysPastDue <= 90) return "d61_90";
+  return "d90_plus";
+}
+
+function emptyBuckets(): Record<AgingBucket, number> {
+  return { current: 0, d1_30: 0, d31_60: 0, d61_90: 0, d90_plus: 0 };
+}
+
+/**
+ * Receivables / payables aging for one entity as of a date. Per counterparty
+ * (see counterpartyOf), movements on the control account are replayed in
+ * date order: invoices (debits on A/R, credits on A/P) open items, payments
+ * and credit notes settle the oldest open item first (FIFO). Items fall due
+ * after the contact's payment terms and are bucketed by days past due.
+ * Reversed entries and their reversals are left out.
+ */
+export function buildAging(params: {
+  entries: JournalEntry[];
+  entityId: string;
+  contacts: Contact[];
+  asOfISO: string;
+  accounts?: string[];
+}): AgingRow[] {
+  const { entries, entityId, contacts, asOfISO, accounts = SUBLEDGER_ACCOUNTS } = params;
+  const byId = new Map(contacts.map((c) => [c.id, c]));
+  const asOf = dayNumber(asOfISO);
+
+  type Movement = { entryId: string; dateISO: string; amount: number }; // + opens, - settles
+  const groups = new Map<string, { account: string; contact?: Contact; name: string; moves: Movement[] }>();
+
+  for (const e of entries) {
+    // a reversal cancels its entry outright rather than settling the oldest invoice
+    if (e.entityId !== entityId || e.dateISO > asOfISO || isReversedPair(e)) continue;
+    const who = counterpartyOf(e, byId);
+    for (const l of e.lines) {
+      if (!accounts.includes(l.account)) continue;
+      const invoiceSide = l.account === "Accounts Payable" ? l.credit - l.debit : l.debit - l.credit;
+      if (!invoiceSide) continue;
+      const key = `${l.account}|${who.key}`;
+      const group = groups.get(key) ?? { account: l.account, contact: who.contact, name: who.name, moves: [] };
+      group.moves.push({ entryId: e.id, dateISO: e.dateISO, amount: invoiceSide });
+      groups.set(key, group);
+    }
+  }
+
+  const rows: AgingRow[] = [];
+  for (const g of groups.values()) {
+    const termsDays = g.contact?.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS;
+    // same day: invoices before the payments against them
+    const moves = g.moves.slice().sort((a, b) => a.dateISO.localeCompare(b.dateISO) || b.amount - a.amount);
+
+    const items: OpenItem[] = [];
+    let credit = 0; // unapplied payments, used up by the next invoices
+    let creditFrom: string[] = [];
+
+    for (const m of moves) {
+      if (m.amount > 0) {
+        const dueISO = addDays(m.dateISO, termsDays);
+        const applied = Math.min(credit, m.amount);
+        credit = round2(credit - applied);
+        items.push({
+          entryId: m.entryId,
+          dateISO: m.dateISO,
+          dueISO,
+          amount: m.amount,
+          open: round2(m.amount - applied),
+          daysPastDue: asOf - dayNumber(dueISO),
+          bucket: "current",
+          settledBy: applied ? [...creditFrom] : [],
+        });
+        if (!credit) creditFrom = [];
+        continue;
+      }
+
+      let left = -m.amount;
+      for (const item of items) {
+        if (!left) break;
+        if (item.open <= 0) continue;
+        const applied = Math.min(item.open, left);
+        item.open = round2(item.open - applied);
+        item.settledBy.push(m.entryId);
+        left = round2(left - applied);
+      }
+      if (left) {
+        credit = round2(credit + left);
+        creditFrom.push(m.entryId);
+      }
+    }
+
+    const open = items.filter((i) => i.open > 0).map((i) => ({ ...i, bucket: bucketFor(i.daysPastDue) }));
+    if (!open.length && !credit) continue;
+
+    const buckets = emptyBuckets();
+    for (const i of open) buckets[i.bucket] = round2(buckets[i.bucket] + i.open);
+    const total = round2(open.reduce((s, i) => s + i.open, 0) - credit);
+
+    rows.push({
+      account: g.account,
+      contactId: g.contact?.id,
+      name: g.name,
+      termsDays,
+      buckets,
+      total,
+      unapplied: credit,
+      items: open,
+    });
+  }
+
+  return rows.sort(
+    (a, b) => accounts.indexOf(a.account) - accounts.indexOf(b.account) || b.total - a.total || a.name.localeCompare(b.name)
+  );
+}
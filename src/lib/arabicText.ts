@@ -0,0 +1,155 @@
+// Arabic helpers for the parser. `\b` does not work around Arabic letters, and
+// typed Arabic varies in hamza / alef forms, ta marbuta and optional marks, so
+// patterns here are built to tolerate those and to allow the common attached
+// prefixes (و، ف، ب، ل، ال).
+
+export const AR_LETTER = "\\u0621-\\u064A\\u066E-\\u06D3";
+
+export function hasArabic(text: string) {
+  return /[\u0600-\u06FF]/.test(text);
+}
+
+// Harakat, superscript alef and tatweel carry no meaning for parsing.
+export function stripArabicMarks(text: string) {
+  return text.replace(/[\u064B-\u065F\u0670\u0640]/g, "");
+}
+
+// Offset in `text` of offset `i` in stripArabicMarks(text), to map a match back.
+export function markedOffset(text: string, i: number) {
+  let seen = 0;
+  for (let k = 0; k < text.length; k++) {
+    if (/[\u064B-\u065F\u0670\u0640]/.test(text[k])) continue;
+    if (seen === i) return k;
+    seen++;
+  }
+  return text.length;
+}
+
+// Compare-friendly form: one alef, one ya, ta marbuta as ha.
+export function foldArabic(text: string) {
+  return stripArabicMarks(text)
+    .replace(/[\u0622\u0623\u0625\u0671]/g, "\u0627")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه");
+}
+
+// "دفعت|صرفت" -> regex source where every alef/ya/ha also matches its variants
+export function arabicVariants(words: string) {
+  return foldArabic(words)
+    .replace(/ا/g, "[اأإآٱ]")
+    .replace(/ي/g, "[يى]")
+    .replace(/ه/g, "[هة]");
+}
+
+/** Whole-word regex for Arabic alternatives, allowing و/ف + ب/ل/ك + ال prefixes. */
+export function arabicWordRe(words: string, flags = "") {
+  return new RegExp(`(?:^|[^${AR_LETTER}])(?:[وف])?(?:[بلك])?(?:ال)?(?:${arabicVariants(words)})(?![${AR_LETTER}])`, flags);
+}
+
+export function hasArabicWord(text: string, words: string) {
+  return arabicWordRe(words).test(stripArabicMarks(text));
+}
+
+// -------------------------
+// Dates
+// -------------------------
+
+// Gregorian month names (Gulf / Egyptian and Levantine forms) -> English.
+const AR_MONTHS: [string, string][] = [
+  ["يناير|كانون الثاني", "january"],
+  ["فبراير|شباط", "february"],
+  ["مارس|اذار", "march"],
+  ["ابريل|نيسان", "april"],
+  ["مايو|ايار", "may"],
+  ["يونيو|يونيه|حزيران", "june"],
+  ["يوليو|يوليه|تموز", "july"],
+  ["اغسطس|اب", "august"],
+  ["سبتمبر|ايلول", "september"],
+  ["اكتوبر|تشرين الاول", "october"],
+  ["نوفمبر|تشرين الثاني", "november"],
+  ["ديسمبر|كانون الاول", "december"],
+];
+
+// Hijri month names -> the transliterations dateParser already knows.
+const AR_HIJRI_MONTHS: [string, string][] = [
+  ["محرم", "muharram"],
+  ["صفر", "safar"],
+  ["ربيع الاول", "rabi al-awwal"],
+  ["ربيع الاخر|ربيع الثاني", "rabi al-thani"],
+  ["جمادي الاولي|جمادي الاول", "jumada al-ula"],
+  ["جمادي الاخره|جمادي الثانيه|جمادي الاخر", "jumada al-akhirah"],
+  ["رجب", "rajab"],
+  ["شعبان", "shaban"],
+  ["رمضان", "ramadan"],
+  ["شوال", "shawwal"],
+  ["ذو القعده|ذي القعده", "dhu al-qadah"],
+  ["ذو الحجه|ذي الحجه", "dhu al-hijjah"],
+];
+
+const AR_WEEKDAYS: [string, string][] = [
+  ["الاحد", "sunday"],
+  ["الاثنين", "monday"],
+  ["الثلاثاء", "tuesday"],
+  ["الاربعاء", "wednesday"],
+  ["الخميس", "thursday"],
+  ["الجمعه", "friday"],
+  ["السبت", "saturday"],
+];
+
+// Phrase -> English; longest phrases first so "أول أمس" wins over "أمس".
+const AR_DATE_PHRASES: [string, string][] = [
+  ["اول امس|اول من امس|قبل امس", "day before yesterday"],
+  ["امس|البارحه", "yesterday"],
+  ["اليوم", "today"],
+  ["غدا|بكره", "tomorrow"],
+  ["نهايه الشهر الماضي|اخر الشهر الماضي", "end of last month"],
+  ["نهايه الشهر|اخر الشهر|نهايه هذا الشهر", "end of this month"],
+  ["بدايه الشهر الماضي|اول الشهر الماضي", "start of last month"],
+  ["بدايه الشهر|اول الشهر", "start of this month"],
+  ["نهايه الربع الماضي", "end of last quarter"],
+  ["نهايه السنه الماضيه|نهايه العام الماضي", "end of last year"],
+  ["الاسبوع الماضي", "last week"],
+];
+
+function replaceArabic(text: string, words: string, english: string, prefixes = true) {
+  const re = new RegExp(
+    `(^|[^${AR_LETTER}])${prefixes ? "(?:[وف])?(?:[بل])?" : ""}(?:${arabicVariants(words)})(?![${AR_LETTER}])`,
+    "g"
+  );
+  return text.replace(re, (_, lead: string) => `${lead} ${english} `);
+}
+
+/**
+ * Rewrites Arabic date expressions into the English forms parseAnyDate reads:
+ *   "أمس" -> "yesterday", "١٢ مارس" -> "12 march", "قبل ٣ أيام" -> "3 days ago",
+ *   "يوم الجمعة الماضي" -> "last friday", "15 رمضان 1446" -> "15 ramadan 1446".
+ * Digits must already be ASCII.
+ */
+export function arabicDatesToEnglish(text: string): string {
+  if (!hasArabic(text)) return text;
+  let t = stripArabicMarks(text);
+
+  t = t.replace(
+    new RegExp(`قبل\\s+(\\d{1,3})\\s+(?:${arabicVariants("ايام|يوم|اسابيع|اسبوع|اشهر|شهور|شهر|سنوات|سنه")})(?![${AR_LETTER}])`, "g"),
+    (m: string, n: string) => {
+      const unit = foldArabic(m);
+      const en = /اسبوع|اسابيع/.test(unit) ? "weeks" : /شهر|اشهر|شهور/.test(unit) ? "months" : /سن/.test(unit) ? "years" : "days";
+      return ` ${n} ${en} ago `;
+    }
+  );
+
+  for (const [ar, en] of AR_WEEKDAYS) {
+    t = t.replace(
+      new RegExp(`(?:يوم\\s+)?(?:${arabicVariants(ar)})\\s+(?:${arabicVariants("الماضي|السابق")})(?![${AR_LETTER}])`, "g"),
+      ` last ${en} `
+    );
+    t = t.replace(new RegExp(`يوم\\s+(?:${arabicVariants(ar)})(?![${AR_LETTER}])`, "g"), ` on ${en} `);
+  }
+
+  for (const [ar, en] of AR_DATE_PHRASES) t = replaceArabic(t, ar, en);
+  for (const [ar, en] of AR_HIJRI_MONTHS) t = replaceArabic(t, ar, en, false);
+  for (const [ar, en] of AR_MONTHS) t = replaceArabic(t, ar, en, false);
+
+  // "هـ" after a Hijri year
+  return t.replace(new RegExp(`(\\d{4})\\s*(?:هجري|ه)(?![${AR_LETTER}])`, "g"), "$1 ah");
+}
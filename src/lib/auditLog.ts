@@ -0,0 +1,152 @@
+import type { Account, AuditEvent, AuditFieldChange, AuditObjectKind, JournalLine } from "./types";
+
+function makeId() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+export const AUDIT_OBJECT_LABELS: Record<AuditObjectKind, string> = {
+  entry: "Journal entry",
+  account: "Account",
+  entity: "Entity",
+  asset: "Asset",
+  liability: "Liability",
+  contact: "Contact",
+};
+
+export const DEFAULT_ACTOR = "Local user";
+
+// Keystrokes in one field show as one row when they come this close together.
+const GROUP_MS = 5000;
+
+type AuditContext = { actor: string; at: string };
+
+function same(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function fieldChanges(before: object | undefined, after: object | undefined): AuditFieldChange[] {
+  const b = (before ?? {}) as Record<string, unknown>;
+  const a = (after ?? {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(b), ...Object.keys(a)]));
+  return fields
+    .filter((f) => f !== "id" && !same(b[f], a[f]))
+    .map((field) => ({ field, before: b[field], after: a[field] }));
+}
+
+/**
+ * Create / update / delete events between two versions of a collection,
+ * matched by id. `describe` gives the label and owning entity of an object.
+ */
+export function diffCollection<T extends { id: string }>(
+  object: AuditObjectKind,
+  before: T[],
+  after: T[],
+  describe: (x: T) => { label: string; entityId?: string },
+  ctx: AuditContext
+): AuditEvent[] {
+  const beforeById = new Map(before.map((x) => [x.id, x]));
+  const afterIds = new Set(after.map((x) => x.id));
+  const events: AuditEvent[] = [];
+
+  const event = (x: T, action: AuditEvent["action"], changes: AuditFieldChange[]): AuditEvent => ({
+    id: makeId(),
+    at: ctx.at,
+    actor: ctx.actor,
+    action,
+    object,
+    objectId: x.id,
+    ...describe(x),
+    changes,
+  });
+
+  for (const x of after) {
+    const prev = beforeById.get(x.id);
+    if (!prev) events.push(event(x, "create", fieldChanges(undefined, x)));
+    else if (prev !== x) {
+      const changes = fieldChanges(prev, x);
+      if (changes.length) events.push(event(x, "update", changes));
+    }
+  }
+  for (const x of before) {
+    if (!afterIds.has(x.id)) events.push(event(x, "delete", fieldChanges(x, undefined)));
+  }
+  return events;
+}
+
+/** diffCollection over every entity's chart of accounts. */
+export function diffAccountsByEntity(
+  before: Record<string, Account[]>,
+  after: Record<string, Account[]>,
+  ctx: AuditContext
+): AuditEvent[] {
+  const entityIds = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return entityIds.flatMap((entityId) => {
+    if (before[entityId] === after[entityId]) return [];
+    const describe = (a: Account) => ({ label: a.name, entityId });
+    return diffCollection("account", before[entityId] ?? [], after[entityId] ?? [], describe, ctx);
+  });
+}
+
+/** Appends events to the log; recorded events are never rewritten or dropped. */
+export function appendAudit(log: AuditEvent[], events: AuditEvent[]): AuditEvent[] {
+  return events.length ? [...log, ...events] : log;
+}
+
+export type AuditGroup = {
+  event: AuditEvent; // the last event, with the first event's "before" values
+  count: number; // events shown as this row
+};
+
+/**
+ * For display only: consecutive updates of the same object and fields by the
+ * same person within a few seconds (typing in a field) show as one row from
+ * the first "before" to the last "after". The log itself keeps every event.
+ */
+export function groupAuditEvents(events: AuditEvent[]): AuditGroup[] {
+  const groups: AuditGroup[] = [];
+  const fields = (e: AuditEvent) => e.changes.map((c) => c.field).join("|");
+  for (const ev of events) {
+    const last = groups[groups.length - 1]?.event;
+    if (
+      last &&
+      ev.action === "update" &&
+      last.action === "update" &&
+      last.object === ev.object &&
+      last.objectId === ev.objectId &&
+      last.actor === ev.actor &&
+      fields(last) === fields(ev) &&
+      Date.parse(ev.at) - Date.parse(last.at) <= GROUP_MS
+    ) {
+      const changes = ev.changes.map((c, i) => ({ ...c, before: last.changes[i].before }));
+      const group = groups[groups.length - 1];
+      groups[groups.length - 1] = { event: { ...ev, changes }, count: group.count + 1 };
+      continue;
+    }
+    groups.push({ event: ev, count: 1 });
+  }
+  return groups;
+}
+
+export type LineDiff = {
+  index: number;
+  status: "added" | "removed" | "changed" | "same";
+  before?: JournalLine;
+  after?: JournalLine;
+  fields: string[]; // changed JournalLine fields
+};
+
+/** Field-level diff of journal lines, position by position (lines have no ids). */
+export function diffLines(before: JournalLine[] = [], after: JournalLine[] = []): LineDiff[] {
+  const out: LineDiff[] = [];
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    const b = before[i];
+    const a = after[i];
+    if (!b) out.push({ index: i, status: "added", after: a, fields: [] });
+    else if (!a) out.push({ index: i, status: "removed", before: b, fields: [] });
+    else {
+      const fields = fieldChanges(b, a).map((c) => c.field);
+      out.push({ index: i, status: fields.length ? "changed" : "same", before: b, after: a, fields });
+    }
+  }
+  return out;
+}
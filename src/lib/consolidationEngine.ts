@@ -1,5 +1,6 @@
 import type { Account, Entity, JournalEntry } from "./types";
-import { computeBalances, formatBalance } from "./journalEngine";
+import { formatBalance } from "./journalEngine";
+import { carriedForwardBalances } from "./yearEndClose";
 
 function round2(n: number) {
   return Math.round(n * 100) / 100;
@@ -54,7 +55,7 @@ export function consolidateGroup(params: {
   const entityBalances: EntityBalances[] = included.map((ent) => {
     const entEntries = entries.filter((x) => x.entityId === ent.id);
     const chart = accountsByEntity[ent.id] ?? [];
-    const { opening, closing } = computeBalances(chart, entEntries);
+    const { opening, closing } = carriedForwardBalances({ entity: ent, accounts: chart, entries: entEntries });
     return { entityId: ent.id, opening, closing };
   });
 
@@ -0,0 +1,109 @@
+import type { Contact, ContactKind, JournalEntry } from "./types";
+import { buildAccountChart, matchAccount } from "./accountMatcher";
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+export const CONTACT_KIND_LABELS: Record<ContactKind, string> = {
+  customer: "Customer",
+  vendor: "Vendor",
+  employee: "Employee",
+  related_entity: "Related entity",
+};
+
+// Control accounts broken down by contact.
+export const SUBLEDGER_ACCOUNTS = ["Accounts Receivable", "Accounts Payable"];
+
+// "Acme Trading LLC" is still "Acme" in a memo; "شركة النور" is "النور".
+const LEGAL_SUFFIX_RE =
+  /[\s,.]+(?:l\.?l\.?c|fz-?llc|fze|fzco|dmcc|ltd|limited|inc|corp|co|plc|gmbh|est|establishment|trading)\.?$/i;
+const LEGAL_PREFIX_RE = /^(?:شركة|شركه|مؤسسة|مؤسسه)\s+/;
+
+function withoutLegalForm(name: string) {
+  let out = name.trim().replace(LEGAL_PREFIX_RE, "");
+  for (let prev = ""; prev !== out; ) {
+    prev = out;
+    out = out.replace(LEGAL_SUFFIX_RE, "").trim();
+  }
+  return out || name.trim();
+}
+
+// Contacts as an account chart: names, with aliases and the name without its legal form as synonyms.
+function contactChart(contacts: Contact[]) {
+  const names = Array.from(new Set(contacts.map((c) => c.name)));
+  const synonyms: Record<string, string[]> = {};
+  for (const c of contacts) {
+    const short = withoutLegalForm(c.name);
+    synonyms[c.name] = [...(synonyms[c.name] ?? []), ...(c.aliases ?? []), ...(short !== c.name ? [short] : [])];
+  }
+  return buildAccountChart(names, synonyms);
+}
+
+/** Directory contact for a parsed counterparty: exact name, alias or a confident fuzzy match. */
+export function resolveContact(name: string | undefined, contacts: Contact[]): Contact | null {
+  if (!name?.trim() || !contacts.length) return null;
+  const match = matchAccount(withoutLegalForm(name), contactChart(contacts));
+  return match ? contacts.find((c) => c.name === match.account) ?? null : null;
+}
+
+/**
+ * Who an entry is with: its directory contact, else the parsed counterparty
+ * text (a contact that was removed falls back to the text too). `key` groups
+ * entries of the same counterparty.
+ */
+export function counterpartyOf(
+  e: JournalEntry,
+  contactsById: Map<string, Contact>
+): { key: string; contact?: Contact; name: string } {
+  const contact = e.contactId ? contactsById.get(e.contactId) : undefined;
+  if (contact) return { key: `id:${contact.id}`, contact, name: contact.name };
+  const name = e.source?.counterparty?.trim() ?? "";
+  return { key: `text:${name.toLowerCase()}`, name };
+}
+
+export type SubledgerRow = {
+  account: string; // control account
+  contactId?: string; // unset: entries without a contact
+  name: string; // contact name, or the parsed counterparty text for unassigned entries
+  balance: number; // + Dr / - Cr
+  entryIds: string[];
+};
+
+/**
+ * Per-contact balances of the control accounts for one entity. Entries
+ * without a contact are grouped by their parsed counterparty text so they
+ * can be assigned later; the rows of an account sum to its ledger movement.
+ */
+export function buildSubledgers(params: {
+  entries: JournalEntry[];
+  entityId: string;
+  contacts: Contact[];
+  accounts?: string[];
+  asOfISO?: string;
+}): SubledgerRow[] {
+  const { entries, entityId, contacts, accounts = SUBLEDGER_ACCOUNTS, asOfISO } = params;
+  const byId = new Map(contacts.map((c) => [c.id, c]));
+  const rows = new Map<string, SubledgerRow>();
+
+  for (const e of entries) {
+    if (e.entityId !== entityId || (asOfISO && e.dateISO > asOfISO)) continue;
+    const { key: who, contact, name } = counterpartyOf(e, byId);
+
+    for (const l of e.lines) {
+      if (!accounts.includes(l.account)) continue;
+      const key = `${l.account}|${who}`;
+      const row = rows.get(key) ?? { account: l.account, contactId: contact?.id, name, balance: 0, entryIds: [] };
+      row.balance = round2(row.balance + (l.debit || 0) - (l.credit || 0));
+      if (!row.entryIds.includes(e.id)) row.entryIds.push(e.id);
+      rows.set(key, row);
+    }
+  }
+
+  return Array.from(rows.values()).sort(
+    (a, b) =>
+      accounts.indexOf(a.account) - accounts.indexOf(b.account) ||
+      Number(!a.contactId) - Number(!b.contactId) ||
+      Math.abs(b.balance) - Math.abs(a.balance)
+  );
+}
@@ -0,0 +1,164 @@
+import type { Account, CorporateTaxAdjustment, CorporateTaxPolicy, Entity, JournalEntry } from "./types";
+import { buildIncomeStatement, type IncomeStatement } from "./incomeStatement";
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function makeId() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+// Federal Decree-Law No. 47 of 2022: 0% up to AED 375,000 of taxable income, 9% above.
+export const CT_RATE = 0.09;
+export const CT_THRESHOLD = 375_000;
+// Small business relief: an election for revenue of AED 3m or less; taxable income is treated as nil.
+export const SBR_REVENUE_LIMIT = 3_000_000;
+
+export const CT_EXPENSE_ACCOUNT = "Corporate Tax Expense";
+export const CT_PAYABLE_ACCOUNT = "Corporate Tax Payable";
+
+export const DEFAULT_CORPORATE_TAX_POLICY: CorporateTaxPolicy = { smallBusinessRelief: false, adjustments: [] };
+
+export type AppliedAdjustment = {
+  adjustment: CorporateTaxAdjustment;
+  label: string;
+  amount: number; // signed: added back (+) or deducted (-) from accounting profit
+};
+
+export type BusinessUnitTax = {
+  businessUnitId: string; // "" for untagged entries
+  name: string;
+  profit: number;
+  taxShare: number; // the entity's tax spread by share of positive profit; reporting only
+};
+
+export type CorporateTaxResult = {
+  entityId: string;
+  fromISO: string;
+  toISO: string;
+  statement: IncomeStatement;
+  accountingProfit: number; // before corporate tax itself
+  adjustments: AppliedAdjustment[];
+  taxableIncome: number;
+  reliefApplied: boolean;
+  taxPayable: number;
+  byBusinessUnit: BusinessUnitTax[];
+  warnings: string[];
+};
+
+function adjustmentLabel(a: CorporateTaxAdjustment) {
+  const what = a.kind === "non_deductible" ? "Non-deductible" : "Exempt income";
+  const base = a.account ? `${what}: ${a.account}${a.pct !== 100 ? ` (${a.pct}%)` : ""}` : what;
+  return a.note ? `${base} • ${a.note}` : base;
+}
+
+function applyAdjustment(a: CorporateTaxAdjustment, statement: IncomeStatement): number {
+  const base = a.account
+    ? (statement.rows.find((r) => r.account === a.account)?.amount ?? 0) * (Math.max(0, Math.min(100, a.pct)) / 100)
+    : a.amount ?? 0;
+  // non-deductible expenses are added back; exempt income comes out
+  return round2(a.kind === "non_deductible" ? base : -base);
+}
+
+/**
+ * Current corporate tax for one entity and period: accounting profit from
+ * the ledger (corporate tax expense itself excluded), plus the policy's
+ * adjustments, then the 0% band and small business relief. No loss
+ * carry-forward: a negative taxable income simply owes nothing.
+ */
+export function computeCorporateTax(params: {
+  entity: Entity;
+  accounts: Account[];
+  entries: JournalEntry[];
+  fromISO: string;
+  toISO: string;
+}): CorporateTaxResult {
+  const { entity, accounts, entries, fromISO, toISO } = params;
+  const policy = entity.policy.corporateTax ?? DEFAULT_CORPORATE_TAX_POLICY;
+  const warnings: string[] = [];
+
+  const statement = buildIncomeStatement({
+    accounts,
+    entries: entries.map((e) =>
+      e.lines.some((l) => l.account === CT_EXPENSE_ACCOUNT)
+        ? { ...e, lines: e.lines.filter((l) => l.account !== CT_EXPENSE_ACCOUNT) }
+        : e
+    ),
+    entityId: entity.id,
+    fromISO,
+    toISO,
+    baseCurrency: entity.policy.functionalCurrency,
+  });
+
+  const adjustments = policy.adjustments.map((a) => ({
+    adjustment: a,
+    label: adjustmentLabel(a),
+    amount: applyAdjustment(a, statement),
+  }));
+  for (const a of policy.adjustments) {
+    if (a.account && !statement.rows.some((r) => r.account === a.account)) {
+      warnings.push(`No movement on ${a.account} this period; its adjustment is nil.`);
+    }
+  }
+
+  const taxableIncome = round2(statement.profit + adjustments.reduce((s, a) => s + a.amount, 0));
+
+  const reliefApplied = policy.smallBusinessRelief && statement.revenue <= SBR_REVENUE_LIMIT;
+  if (policy.smallBusinessRelief && !reliefApplied) {
+    warnings.push(`Revenue is above AED ${SBR_REVENUE_LIMIT.toLocaleString()}; small business relief does not apply.`);
+  }
+  if (entity.policy.functionalCurrency !== "AED") {
+    warnings.push(`Functional currency is ${entity.policy.functionalCurrency}; the AED 375,000 band is applied as is.`);
+  }
+  if (statement.foreignEntryIds.length) {
+    warnings.push(`${statement.foreignEntryIds.length} entries in other currencies are included at face value.`);
+  }
+
+  const taxPayable = reliefApplied ? 0 : round2(Math.max(0, taxableIncome - CT_THRESHOLD) * CT_RATE);
+
+  const names = new Map(entity.businessUnits.map((b) => [b.id, b.name]));
+  const units = Object.entries(statement.byBusinessUnit);
+  const positive = units.reduce((s, [, u]) => s + Math.max(0, u.profit), 0);
+  const byBusinessUnit = units.map(([id, u]) => ({
+    businessUnitId: id,
+    name: names.get(id) ?? (id ? "Removed BU" : "Unassigned"),
+    profit: u.profit,
+    taxShare: positive > 0 ? round2((taxPayable * Math.max(0, u.profit)) / positive) : 0,
+  }));
+
+  return {
+    entityId: entity.id,
+    fromISO,
+    toISO,
+    statement,
+    accountingProfit: statement.profit,
+    adjustments,
+    taxableIncome,
+    reliefApplied,
+    taxPayable,
+    byBusinessUnit,
+    warnings,
+  };
+}
+
+/** Dr Corporate Tax Expense / Cr Corporate Tax Payable for the period's current tax. */
+export function buildCorporateTaxProvisionEntry(result: CorporateTaxResult, entity: Entity): JournalEntry | null {
+  if (result.taxPayable <= 0) return null;
+  return {
+    id: makeId(),
+    dateISO: result.toISO,
+    memo: corporateTaxProvisionMemo(result),
+    currency: entity.policy.functionalCurrency,
+    entityId: entity.id,
+    lines: [
+      { account: CT_EXPENSE_ACCOUNT, debit: result.taxPayable, credit: 0 },
+      { account: CT_PAYABLE_ACCOUNT, debit: 0, credit: result.taxPayable },
+    ],
+  };
+}
+
+// Also used to spot a period that was already provided for.
+export function corporateTaxProvisionMemo(result: Pick<CorporateTaxResult, "fromISO" | "toISO">) {
+  return `Corporate tax provision ${result.fromISO} – ${result.toISO}`;
+}
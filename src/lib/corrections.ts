@@ -0,0 +1,90 @@
+import type { JournalEntry } from "./types";
+
+function makeId() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+/** Entries as they are saved to the ledger: posted, with the time they were posted. */
+export function postEntries(entries: JournalEntry[], at = new Date()): JournalEntry[] {
+  const postedAt = at.toISOString();
+  return entries.map((e): JournalEntry => ({ ...e, status: "posted", postedAt }));
+}
+
+// Still in force: not reversed or voided, and not itself a reversal. Only these can be corrected.
+export function isActiveEntry(e: JournalEntry) {
+  return (e.status ?? "posted") === "posted" && !e.reversalOf;
+}
+
+// A reversed / voided entry or the reversal cancelling it; each pair nets to zero.
+export function isReversedPair(e: JournalEntry) {
+  return Boolean(e.reversedBy || e.reversalOf);
+}
+
+// Same date and lines, debits and credits swapped.
+function reversalEntry(e: JournalEntry, postedAt: string): JournalEntry {
+  return {
+    id: makeId(),
+    dateISO: e.dateISO,
+    memo: `Reversal of: ${e.memo}`,
+    currency: e.currency,
+    entityId: e.entityId,
+    businessUnitId: e.businessUnitId,
+    contactId: e.contactId,
+    lines: e.lines.map((l) => ({ ...l, debit: l.credit, credit: l.debit })),
+    status: "posted",
+    postedAt,
+    reversalOf: e.id,
+    yearEndClose: e.yearEndClose,
+  };
+}
+
+function sameContent(a: JournalEntry, b: JournalEntry) {
+  const content = (e: JournalEntry) =>
+    JSON.stringify([e.dateISO, e.memo, e.currency, e.entityId, e.businessUnitId, e.contactId, e.lines]);
+  return content(a) === content(b);
+}
+
+/**
+ * Applies an edit of a posted entry without touching its amounts: the
+ * original is marked reversed, and a reversal plus the corrected replacement
+ * (a new id) are posted, all linked by id. Unchanged or inactive entries
+ * leave the ledger as it is.
+ */
+export function correctEntry(entries: JournalEntry[], corrected: JournalEntry, at = new Date()): JournalEntry[] {
+  const original = entries.find((e) => e.id === corrected.id);
+  if (!original || !isActiveEntry(original) || sameContent(original, corrected)) return entries;
+
+  const postedAt = at.toISOString();
+  const reversal = reversalEntry(original, postedAt);
+  const replacement: JournalEntry = {
+    ...corrected,
+    id: makeId(),
+    status: "posted",
+    postedAt,
+    replaces: original.id,
+    replacedBy: undefined,
+    reversedBy: undefined,
+    lockOverride: undefined, // checked again when it is posted
+    redirectedFrom: undefined,
+  };
+
+  return [
+    ...entries.map((e): JournalEntry =>
+      e.id === original.id ? { ...e, status: "reversed", reversedBy: reversal.id, replacedBy: replacement.id } : e
+    ),
+    reversal,
+    replacement,
+  ];
+}
+
+/** Deleting a posted entry voids it and posts its reversal; nothing is removed. */
+export function voidEntry(entries: JournalEntry[], id: string, at = new Date()): JournalEntry[] {
+  const original = entries.find((e) => e.id === id);
+  if (!original || !isActiveEntry(original)) return entries;
+
+  const reversal = reversalEntry(original, at.toISOString());
+  return [
+    ...entries.map((e): JournalEntry => (e.id === id ? { ...e, status: "void", reversedBy: reversal.id } : e)),
+    reversal,
+  ];
+}
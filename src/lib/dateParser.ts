@@ -0,0 +1,326 @@
+// Date parsing for the composer: explicit dates ("2026-01-12", "12/1", "12 March",
+// "March 12"), period ends ("end of last month", "Q3 2025"), Hijri dates
+// ("15 Ramadan 1446") and relative phrases ("yesterday", "last Friday",
+// "two weeks ago"). Arabic phrases ("أمس", "١٢ مارس", "١٥ رمضان ١٤٤٦") are
+// rewritten to their English forms first.
+//
+// Everything is anchored to an injectable `today` so results are reproducible.
+
+import { arabicDatesToEnglish } from "./arabicText";
+import { toAsciiDigits } from "./numberNormalizer";
+
+export function toISODate(d: Date) {
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+export function stripOrdinal(s: string) {
+  return s.replace(/(\d+)(st|nd|rd|th)/gi, "$1");
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0,
+  feb: 1, february: 1,
+  mar: 2, march: 2,
+  apr: 3, april: 3,
+  may: 4,
+  jun: 5, june: 5,
+  jul: 6, july: 6,
+  aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8,
+  oct: 9, october: 9,
+  nov: 10, november: 10,
+  dec: 11, december: 11,
+};
+
+const MONTH_RE =
+  "jan|january|feb|february|mar|march|apr|april|may|jun|june|jul|july|aug|august|sep|sept|september|oct|october|nov|november|dec|december";
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const WEEKDAY_RE = "sunday|sun|monday|mon|tuesday|tues|tue|wednesday|wed|thursday|thurs|thur|thu|friday|fri|saturday|sat";
+
+// Small counts only; full spelled-out amounts are handled by the amount parser.
+const COUNT_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, couple: 2, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const COUNT_RE = `\\d{1,3}|a couple of|${Object.keys(COUNT_WORDS).join("|")}`;
+
+// Common transliterations -> month index (0-based)
+const HIJRI_MONTHS: [RegExp, number][] = [
+  [/^muharram$/, 0],
+  [/^safar$/, 1],
+  [/^rabi(?:'|\s)?(?:al[- ]?)?(?:awwal|i|1)$/, 2],
+  [/^rabi(?:'|\s)?(?:al[- ]?|ul[- ]?)?(?:thani|akhir|ii|2)$/, 3],
+  [/^jumad[ae](?:\s|-)?(?:al[- ]?|ul[- ]?)?(?:awwal|ula|i|1)$/, 4],
+  [/^jumad[ae](?:\s|-)?(?:al[- ]?|ul[- ]?)?(?:thani|akhirah|ii|2)$/, 5],
+  [/^rajab$/, 6],
+  [/^sha'?ban$/, 7],
+  [/^rama[dz]an$/, 8],
+  [/^shawwal$/, 9],
+  [/^dhu?\s?(?:al[- ]?|l[- ]?)?q[ai]'?dah?$/, 10],
+  [/^dhu?\s?(?:al[- ]?|l[- ]?)?hijj?ah?$/, 11],
+];
+
+const HIJRI_MONTH_RE =
+  "muharram|safar|rabi(?:'|\\s)?(?:al[- ]?|ul[- ]?)?(?:awwal|thani|akhir|ii|i|1|2)|jumad[ae](?:\\s|-)?(?:al[- ]?|ul[- ]?)?(?:awwal|ula|thani|akhirah|ii|i|1|2)|rajab|sha'?ban|rama[dz]an|shawwal|dhu?\\s?(?:al[- ]?|l[- ]?)?(?:q[ai]'?dah?|hijj?ah?)";
+
+function hijriMonthIndex(name: string): number | undefined {
+  const n = name.toLowerCase().trim();
+  for (const [re, idx] of HIJRI_MONTHS) if (re.test(n)) return idx;
+  return undefined;
+}
+
+function startOfDay(d: Date) {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+function addDays(d: Date, n: number) {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
+}
+
+function addMonthsClamped(d: Date, n: number) {
+  const target = new Date(d.getFullYear(), d.getMonth() + n, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  return new Date(target.getFullYear(), target.getMonth(), Math.min(d.getDate(), lastDay));
+}
+
+function monthEnd(year: number, month: number) {
+  return new Date(year, month + 1, 0);
+}
+
+// Julian Day Numbers of 1970-01-01 and 1 Muharram 1 AH (civil epoch).
+const JDN_UNIX_EPOCH = 2440588;
+const ISLAMIC_EPOCH_JDN = 1948440;
+
+// Tabular (arithmetic) Islamic calendar. Can differ from the sighted /
+// Umm al-Qura calendar by a day, which is fine for bookkeeping input.
+function hijriToDate(year: number, month: number, day: number): Date {
+  const jdn =
+    day +
+    Math.ceil(29.5 * month) +
+    (year - 1) * 354 +
+    Math.floor((3 + 11 * year) / 30) +
+    ISLAMIC_EPOCH_JDN -
+    1;
+  const utc = new Date(Date.UTC(1970, 0, 1) + (jdn - JDN_UNIX_EPOCH) * 86400000);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+}
+
+function hijriYearOf(d: Date): number {
+  const jdn = Math.floor(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / 86400000) + JDN_UNIX_EPOCH;
+  return Math.floor((30 * (jdn - ISLAMIC_EPOCH_JDN) + 10646) / 10631);
+}
+
+function parseCount(s: string): number {
+  const t = s.toLowerCase().trim();
+  if (/^\d+$/.test(t)) return Number(t);
+  if (t === "a couple of") return 2;
+  return COUNT_WORDS[t] ?? 1;
+}
+
+// Previous-or-same year when a yearless date would land in the future.
+function pastBiasedYear(explicit: string | undefined, month: number, day: number, today: Date) {
+  let yyyy = explicit ? Number(explicit) : today.getFullYear();
+  if (explicit && yyyy < 100) yyyy += 2000;
+  const candidate = new Date(yyyy, month, day);
+  if (!explicit && candidate.getTime() > today.getTime()) yyyy -= 1;
+  return yyyy;
+}
+
+/**
+ * Period ends: "end of last month", "end of this month", "start of last month",
+ * "end of March 2025", "end of last year", "Q3", "Q3 2025".
+ * Quarters resolve to their last day.
+ */
+function parsePeriodPhrase(t: string, today: Date): Date | undefined {
+  const rel = t.match(/\b(end|start|beginning)\s+of\s+(?:the\s+)?(last|previous|this|current|next)\s+(month|quarter|year)\b/);
+  if (rel) {
+    const offset = rel[2] === "last" || rel[2] === "previous" ? -1 : rel[2] === "next" ? 1 : 0;
+    const atEnd = rel[1] === "end";
+    if (rel[3] === "month") {
+      const m = today.getMonth() + offset;
+      return atEnd ? monthEnd(today.getFullYear(), m) : new Date(today.getFullYear(), m, 1);
+    }
+    if (rel[3] === "quarter") {
+      const q = Math.floor(today.getMonth() / 3) + offset;
+      return atEnd ? monthEnd(today.getFullYear(), q * 3 + 2) : new Date(today.getFullYear(), q * 3, 1);
+    }
+    const y = today.getFullYear() + offset;
+    return atEnd ? new Date(y, 11, 31) : new Date(y, 0, 1);
+  }
+
+  const named = t.match(new RegExp(`\\b(end|start|beginning)\\s+of\\s+(${MONTH_RE})(?:\\s+(\\d{4}))?\\b`));
+  if (named) {
+    const mm = MONTHS[named[2]];
+    const yyyy = pastBiasedYear(named[3], mm, 1, today);
+    return named[1] === "end" ? monthEnd(yyyy, mm) : new Date(yyyy, mm, 1);
+  }
+
+  const quarter = t.match(/\bq([1-4])(?:\s*[-/]?\s*(\d{4}))?\b/);
+  if (quarter) {
+    const q = Number(quarter[1]) - 1;
+    const yyyy = pastBiasedYear(quarter[2], q * 3, 1, today);
+    return monthEnd(yyyy, q * 3 + 2);
+  }
+
+  return undefined;
+}
+
+// "15 Ramadan 1446", "15th of Shawwal", "1 Muharram 1447 AH"
+function parseHijri(t: string, today: Date): Date | undefined {
+  const m = t.match(new RegExp(`\\b(\\d{1,2})\\s+(?:of\\s+)?(${HIJRI_MONTH_RE})(?:\\s+(\\d{4}))?(?:\\s*(?:ah|h)\\b)?`));
+  if (!m) return undefined;
+
+  const day = Number(m[1]);
+  const month = hijriMonthIndex(m[2]);
+  if (month === undefined || day < 1 || day > 30) return undefined;
+
+  if (m[3]) return hijriToDate(Number(m[3]), month, day);
+
+  const year = hijriYearOf(today);
+  const candidate = hijriToDate(year, month, day);
+  return candidate.getTime() > today.getTime() ? hijriToDate(year - 1, month, day) : candidate;
+}
+
+// "yesterday", "day before yesterday", "3 days ago", "two weeks ago",
+// "last Friday", "on Friday", "last week"
+function parseRelativeDay(t: string, today: Date): Date | undefined {
+  if (/\bday before yesterday\b/.test(t)) return addDays(today, -2);
+  if (/\byesterday\b/.test(t)) return addDays(today, -1);
+  if (/\btoday\b/.test(t)) return today;
+  if (/\btomorrow\b/.test(t)) return addDays(today, 1);
+
+  const ago = t.match(new RegExp(`\\b(${COUNT_RE})\\s+(day|week|month|year)s?\\s+ago\\b`));
+  if (ago) {
+    const n = parseCount(ago[1]);
+    if (ago[2] === "day") return addDays(today, -n);
+    if (ago[2] === "week") return addDays(today, -7 * n);
+    if (ago[2] === "month") return addMonthsClamped(today, -n);
+    return addMonthsClamped(today, -12 * n);
+  }
+
+  const weekday = t.match(new RegExp(`\\b(last|past|previous|this|on)\\s+(${WEEKDAY_RE})\\b`));
+  if (weekday) {
+    const target = WEEKDAYS[weekday[2]];
+    let back = (today.getDay() - target + 7) % 7;
+    // "last Friday" on a Friday means a week ago; "on Friday" means today.
+    if (back === 0 && weekday[1] !== "on" && weekday[1] !== "this") back = 7;
+    return addDays(today, -back);
+  }
+
+  if (/\b(last|previous)\s+week\b/.test(t)) return addDays(today, -7);
+
+  return undefined;
+}
+
+export function parseAnyDate(text: string, today: Date = new Date()): string | undefined {
+  const t = stripOrdinal(arabicDatesToEnglish(toAsciiDigits(text)).toLowerCase());
+  const now = startOfDay(today);
+
+  const iso = t.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    const d = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    if (!isNaN(d.getTime())) return toISODate(d);
+  }
+
+  const slash = t.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/);
+  if (slash) {
+    const dd = Number(slash[1]);
+    const mm = Number(slash[2]) - 1;
+    const yyyy = pastBiasedYear(slash[3], mm, dd, now);
+    const d = new Date(yyyy, mm, dd);
+    if (!isNaN(d.getTime())) return toISODate(d);
+  }
+
+  // before "12 March": "end of March 2025" must not read as the 20th
+  const period = parsePeriodPhrase(t, now);
+  if (period) return toISODate(period);
+
+  const hijri = parseHijri(t, now);
+  if (hijri) return toISODate(hijri);
+
+  const dmY = t.match(new RegExp(`\\b(\\d{1,2})\\s+(${MONTH_RE})\\s*(\\d{4})?\\b`));
+  if (dmY) {
+    const dd = Number(dmY[1]);
+    const mm = MONTHS[dmY[2]];
+    const d = new Date(pastBiasedYear(dmY[3], mm, dd, now), mm, dd);
+    if (!isNaN(d.getTime())) return toISODate(d);
+  }
+
+  const mdY = t.match(new RegExp(`\\b(${MONTH_RE})\\s+(\\d{1,2})\\s*(\\d{4})?\\b`));
+  if (mdY) {
+    const mm = MONTHS[mdY[1]];
+    const dd = Number(mdY[2]);
+    const d = new Date(pastBiasedYear(mdY[3], mm, dd, now), mm, dd);
+    if (!isNaN(d.getTime())) return toISODate(d);
+  }
+
+  const relative = parseRelativeDay(t, now);
+  if (relative) return toISODate(relative);
+
+  return undefined;
+}
+
+// Every date expression parseAnyDate understands, in the order they are blanked.
+const DATE_PATTERNS: RegExp[] = [
+  /\b\d{4}-\d{2}-\d{2}\b/g,
+  /\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/g,
+  new RegExp(`\\b(?:end|start|beginning)\\s+of\\s+(?:${MONTH_RE})(?:\\s+\\d{4})?\\b`, "gi"),
+  /\bq[1-4](?:\s*[-/]?\s*\d{4})?\b/gi,
+  new RegExp(`\\b\\d{1,2}\\s+(?:of\\s+)?(?:${HIJRI_MONTH_RE})(?:\\s+\\d{4})?(?:\\s*(?:ah|h)\\b)?`, "gi"),
+  new RegExp(`\\b(?:${COUNT_RE})\\s+(?:day|week|month|year)s?\\s+ago\\b`, "gi"),
+  new RegExp(`\\b(\\d{1,2})\\s+(${MONTH_RE})\\s*(\\d{2,4})?\\b`, "gi"),
+  new RegExp(`\\b(${MONTH_RE})\\s+(\\d{1,2})\\s*(\\d{2,4})?\\b`, "gi"),
+  /\b(?:end|start|beginning)\s+of\s+(?:the\s+)?(?:last|previous|this|current|next)\s+(?:month|quarter|year)\b/gi,
+  new RegExp(`\\b(?:last|past|previous|this|on)\\s+(?:${WEEKDAY_RE})\\b`, "gi"),
+  /\b(?:(?:the\s+)?day before yesterday|yesterday|today|tomorrow|(?:last|previous)\s+week)\b/gi,
+];
+
+/**
+ * Blank out every date expression parseAnyDate understands, so the digits in
+ * "3 days ago", "Q3 2025" or "15 Ramadan 1446" never leak into amounts, and
+ * "yesterday" never leaks into a category name.
+ */
+export function scrubDates(text: string): string {
+  return DATE_PATTERNS.reduce((t, re) => t.replace(re, " "), stripOrdinal(arabicDatesToEnglish(toAsciiDigits(text))));
+}
+
+/**
+ * [start, end) offsets of the date expressions in `text`, for highlighting.
+ * Works on the text as typed (ordinals and Arabic-Indic digits included);
+ * Arabic date words are not located since they are rewritten before parsing.
+ */
+export function findDateSpans(text: string): [number, number][] {
+  // same-length stand-ins keep offsets valid: "12th" -> "12  "
+  let t = toAsciiDigits(text).replace(/(\d+)(st|nd|rd|th)\b/gi, (_, d: string, o: string) => d + " ".repeat(o.length));
+  const spans: [number, number][] = [];
+  for (const re of DATE_PATTERNS) {
+    for (const m of t.matchAll(re)) {
+      const start = m.index ?? 0;
+      spans.push([start, start + m[0].length]);
+    }
+    t = t.replace(re, (m: string) => " ".repeat(m.length));
+  }
+  return spans.sort((a, b) => a[0] - b[0]);
+}
+
+/** scrubDates that keeps offsets: the dates findDateSpans finds, blanked in place. */
+export function blankDates(text: string): string {
+  return findDateSpans(text).reduce(
+    (t, [start, end]) => t.slice(0, start) + " ".repeat(end - start) + t.slice(end),
+    text
+  );
+}
@@ -0,0 +1,103 @@
+import type { Account, AccountType, JournalEntry } from "./types";
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+// Checked in order; the first match decides. Contra accounts (receivable,
+// accumulated depreciation) come before the plain income / expense words.
+const NAME_TYPES: [RegExp, AccountType][] = [
+  [/\b(capital|drawings?|retained earnings|reserves?|equity)\b/, "equity"],
+  [/\b(receivables?|prepaid|prepayments?|accumulated)\b/, "asset"],
+  [/\b(payables?|accrued|accruals?|deferred|unearned)\b/, "liability"],
+  [/\b(expenses?|charges|fees|costs?|purchases?|depreciation|salar(y|ies)|wages|rent)\b/, "expense"],
+  [/\b(revenue|income|sales|gains?)\b/, "income"],
+  [/\b(cash|bank|inventory|stock|equipment|vehicles?|furniture|property|deposits?|input vat|assets?|investments?)\b/, "asset"],
+  [/\b(output vat|loans?|borrowings?|liabilit(y|ies)|provisions?|overdraft)\b/, "liability"],
+];
+
+/**
+ * Statement an account belongs to: its own type when set, otherwise a guess
+ * from the name ("Bank Charges" is an expense, "Loan Receivable" an asset).
+ * Names that match nothing ("Emirates NBD AED") stay on the balance sheet by
+ * their normal side (debit -> asset, credit -> liability): only a positive
+ * match or an explicit type puts an account in the P&L.
+ */
+export function accountTypeOf(account: Pick<Account, "name" | "normalSide" | "type">): AccountType {
+  if (account.type) return account.type;
+  const name = account.name.toLowerCase();
+  for (const [re, type] of NAME_TYPES) if (re.test(name)) return type;
+  return account.normalSide === "credit" ? "liability" : "asset";
+}
+
+export type IncomeStatementRow = {
+  account: string;
+  type: "income" | "expense";
+  amount: number; // in the account's natural direction: credits for income, debits for expenses
+  byBusinessUnit: Record<string, number>; // "" for entries without a business unit
+};
+
+export type IncomeStatement = {
+  rows: IncomeStatementRow[];
+  revenue: number;
+  expenses: number;
+  profit: number;
+  byBusinessUnit: Record<string, { revenue: number; expenses: number; profit: number }>;
+  foreignEntryIds: string[]; // taken at face value: no FX rates in the ledger
+};
+
+/**
+ * Period P&L for one entity from saved entries (inclusive date range).
+ * Opening balances are ignored: income and expense accounts only report
+ * their movement in the period. Year-end closing entries are left out, so a
+ * closed year still shows its profit.
+ */
+export function buildIncomeStatement(params: {
+  accounts: Account[];
+  entries: JournalEntry[];
+  entityId: string;
+  fromISO: string;
+  toISO: string;
+  baseCurrency?: string;
+}): IncomeStatement {
+  const { accounts, entries, entityId, fromISO, toISO, baseCurrency = "AED" } = params;
+
+  const typeByName = new Map(accounts.map((a) => [a.name, accountTypeOf(a)]));
+  const rowsByAccount = new Map<string, IncomeStatementRow>();
+  const byBusinessUnit: IncomeStatement["byBusinessUnit"] = {};
+  const foreignEntryIds: string[] = [];
+
+  for (const e of entries) {
+    if (e.entityId !== entityId || e.dateISO < fromISO || e.dateISO > toISO || e.yearEndClose) continue;
+    const bu = e.businessUnitId ?? "";
+    let touched = false;
+
+    for (const l of e.lines) {
+      const type = typeByName.get(l.account) ?? accountTypeOf({ name: l.account, normalSide: "debit" });
+      if (type !== "income" && type !== "expense") continue;
+      touched = true;
+
+      const amount = type === "income" ? l.credit - l.debit : l.debit - l.credit;
+      const row = rowsByAccount.get(l.account) ?? { account: l.account, type, amount: 0, byBusinessUnit: {} };
+      row.amount = round2(row.amount + amount);
+      row.byBusinessUnit[bu] = round2((row.byBusinessUnit[bu] ?? 0) + amount);
+      rowsByAccount.set(l.account, row);
+
+      const unit = (byBusinessUnit[bu] ??= { revenue: 0, expenses: 0, profit: 0 });
+      if (type === "income") unit.revenue = round2(unit.revenue + amount);
+      else unit.expenses = round2(unit.expenses + amount);
+      unit.profit = round2(unit.revenue - unit.expenses);
+    }
+
+    if (touched && e.currency !== baseCurrency) foreignEntryIds.push(e.id);
+  }
+
+  // income first, then expenses
+  const rows = Array.from(rowsByAccount.values()).sort(
+    (a, b) => (a.type === b.type ? 0 : a.type === "income" ? -1 : 1) || a.account.localeCompare(b.account)
+  );
+  const revenue = round2(rows.filter((r) => r.type === "income").reduce((s, r) => s + r.amount, 0));
+  const expenses = round2(rows.filter((r) => r.type === "expense").reduce((s, r) => s + r.amount, 0));
+
+  return { rows, revenue, expenses, profit: round2(revenue - expenses), byBusinessUnit, foreignEntryIds };
+}
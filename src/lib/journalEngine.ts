@@ -6,7 +6,38 @@ import type {
   JournalLine,
   ParsedEvent,
   Account,
+  AccountCandidate,
+  CategoryRule,
+  ClarificationAnswers,
+  ClarificationField,
+  ClarificationQuestion,
+  Contact,
+  ParseDiagnostic,
+  ParseDiagnosticReason,
+  ParsedField,
+  ParsedSegment,
+  ParserContext,
+  SplitPart,
+  TaxCode,
+  TaxKind,
+  TokenSpan,
+  TransactionParser,
 } from "./types";
+import { blankDates, findDateSpans, parseAnyDate, scrubDates, toISODate } from "./dateParser";
+import { normalizeNumbers } from "./numberNormalizer";
+import {
+  AR_LETTER,
+  arabicVariants,
+  arabicWordRe,
+  hasArabic,
+  hasArabicWord,
+  markedOffset,
+  stripArabicMarks,
+} from "./arabicText";
+import { findCategoryRule, type RuleSubject } from "./rulesEngine";
+import { accountTypeOf } from "./incomeStatement";
+import { buildAccountChart, matchAccount, rankAccountCandidates, type AccountChart } from "./accountMatcher";
+import { resolveContact } from "./contacts";
 
 function round2(n: number) {
   return Math.round(n * 100) / 100;
@@ -16,134 +47,316 @@ function makeId() {
   return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
 }
 
-function toISODate(d: Date) {
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
+function todayISO(today: Date = new Date()) {
+  return toISODate(today);
 }
 
-function todayISO() {
-  return toISODate(new Date());
+// A value read from the text and its [start, end) offsets in the text the
+// parser was given; no span when the value is not there as typed ("3 x 250").
+type TextMatch<T = string> = { value: T; span?: [number, number] };
+
+// Same-length stand-in for a phrase taken out, so offsets stay valid.
+function blank(phrase: string) {
+  return " ".repeat(phrase.length);
 }
 
-function stripOrdinal(s: string) {
-  return s.replace(/(\d+)(st|nd|rd|th)/gi, "$1");
+// Capture `group` of a match made with the "d" flag, trimmed.
+function groupMatch(m: RegExpMatchArray | null, group = 1): TextMatch | undefined {
+  const raw = m?.[group];
+  const at = m?.indices?.[group];
+  const value = raw?.trim();
+  if (!raw || !at || !value) return undefined;
+  const start = at[0] + raw.length - raw.trimStart().length;
+  return { value, span: [start, start + value.length] };
 }
 
-const MONTHS: Record<string, number> = {
-  jan: 0, january: 0,
-  feb: 1, february: 1,
-  mar: 2, march: 2,
-  apr: 3, april: 3,
-  may: 4,
-  jun: 5, june: 5,
-  jul: 6, july: 6,
-  aug: 7, august: 7,
-  sep: 8, sept: 8, september: 8,
-  oct: 9, october: 9,
-  nov: 10, november: 10,
-  dec: 11, december: 11,
-};
+// A match made on stripArabicMarks(text), with its span moved back onto `text`.
+function unmarked(text: string, match: TextMatch | undefined): TextMatch | undefined {
+  if (!match?.span) return match;
+  const [start, end] = match.span;
+  return { value: match.value, span: [markedOffset(text, start), markedOffset(text, end)] };
+}
 
-function parseAnyDate(text: string): string | undefined {
-  const t = stripOrdinal(text.toLowerCase());
+// Arabic currency names; "د.إ" is the dirham sign.
+const AR_AED = "درهم|دراهم|د\\.إ";
+const AR_USD = "دولار|دولارات";
+const AR_EUR = "يورو";
 
-  const iso = t.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
-  if (iso) {
-    const d = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
-    if (!isNaN(d.getTime())) return toISODate(d);
-  }
+function parseCurrency(text: string): Currency | undefined {
+  const t = text.toLowerCase();
+  if (/\b(aed|dh|dhs|dirham|dirhams)\b/.test(t) || hasArabicWord(t, AR_AED)) return "AED";
+  if (/\b(usd|dollar|dollars)\b/.test(t) || /\$/.test(t) || hasArabicWord(t, AR_USD)) return "USD";
+  if (/\b(eur|euro|euros)\b/.test(t) || /€/.test(t) || hasArabicWord(t, AR_EUR)) return "EUR";
+  return undefined;
+}
 
-  const slash = t.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/);
-  if (slash) {
-    const dd = Number(slash[1]);
-    const mm = Number(slash[2]) - 1;
-    let yyyy: number | undefined = slash[3] ? Number(slash[3]) : undefined;
-    if (yyyy !== undefined && yyyy < 100) yyyy += 2000;
+const CURRENCY_TOKEN_RE = String.raw`(?:aed|dhs?|dirhams?|usd|dollars?|eur|euros?|\$|€)`;
+const PRICE_RE = String.raw`(\d+(?:,\d{3})*(?:\.\d{1,2})?)`;
 
-    const now = new Date();
-    if (yyyy === undefined) {
-      yyyy = now.getFullYear();
-      const candidate = new Date(yyyy, mm, dd);
-      if (candidate.getTime() > now.getTime()) yyyy -= 1;
-    }
-    const d = new Date(yyyy, mm, dd);
-    if (!isNaN(d.getTime())) return toISODate(d);
-  }
+type QuantityBreakdown = { quantity: number; unitPrice: number; unit?: string };
 
-  const dmY = t.match(
-    /\b(\d{1,2})\s+(jan|january|feb|february|mar|march|apr|april|may|jun|june|jul|july|aug|august|sep|sept|september|oct|october|nov|november|dec|december)\s*(\d{4})?\b/
+/**
+ * "3 laptops at 1200 aed each", "3 x 1200", "40 hours @ 250/hr",
+ * "250 per hour for 40 hours" -> quantity × unit price.
+ */
+function parseQuantity(text: string): QuantityBreakdown | undefined {
+  const t = scrubDates(normalizeNumbers(text));
+  const num = (s: string) => Number(s.replace(/,/g, ""));
+
+  const qtyFirst = t.match(
+    new RegExp(
+      String.raw`\b(\d+(?:\.\d+)?)\s*(?:([a-z][a-z-]*(?:\s+[a-z][a-z-]*)?)\s+)?(?:x|×|@|at)\s*(?:${CURRENCY_TOKEN_RE}\s*)?${PRICE_RE}(?!\s*%)(?:\s*${CURRENCY_TOKEN_RE})?(?:\s*(?:each|apiece|per\s+([a-z]+)|\/\s*([a-z]+)))?`,
+      "i"
+    )
   );
-  if (dmY) {
-    const dd = Number(dmY[1]);
-    const mm = MONTHS[dmY[2]];
-    const now = new Date();
-    let yyyy = dmY[3] ? Number(dmY[3]) : now.getFullYear();
-    const candidate = new Date(yyyy, mm, dd);
-    if (!dmY[3] && candidate.getTime() > now.getTime()) yyyy -= 1;
-    const d = new Date(yyyy, mm, dd);
-    if (!isNaN(d.getTime())) return toISODate(d);
-  }
-
-  const mdY = t.match(
-    /\b(jan|january|feb|february|mar|march|apr|april|may|jun|june|jul|july|aug|august|sep|sept|september|oct|october|nov|november|dec|december)\s+(\d{1,2})\s*(\d{4})?\b/
+  if (qtyFirst) {
+    const quantity = num(qtyFirst[1]);
+    const unitPrice = num(qtyFirst[3]);
+    const unit = qtyFirst[2]?.trim() || qtyFirst[4] || qtyFirst[5];
+    if (quantity > 0 && unitPrice > 0) return { quantity, unitPrice, unit };
+  }
+
+  const priceFirst = t.match(
+    new RegExp(
+      String.raw`${PRICE_RE}\s*(?:${CURRENCY_TOKEN_RE}\s*)?(?:each|apiece|per\s+([a-z]+)|\/\s*([a-z]+))\s+(?:for|x|×)\s+(\d+(?:\.\d+)?)(?:\s+([a-z]+))?`,
+      "i"
+    )
   );
-  if (mdY) {
-    const mm = MONTHS[mdY[1]];
-    const dd = Number(mdY[2]);
-    const now = new Date();
-    let yyyy = mdY[3] ? Number(mdY[3]) : now.getFullYear();
-    const candidate = new Date(yyyy, mm, dd);
-    if (!mdY[3] && candidate.getTime() > now.getTime()) yyyy -= 1;
-    const d = new Date(yyyy, mm, dd);
-    if (!isNaN(d.getTime())) return toISODate(d);
+  if (priceFirst) {
+    const unitPrice = num(priceFirst[1]);
+    const quantity = num(priceFirst[4]);
+    const unit = priceFirst[5] || priceFirst[2] || priceFirst[3];
+    if (quantity > 0 && unitPrice > 0) return { quantity, unitPrice, unit };
   }
 
   return undefined;
 }
 
-function parseCurrency(text: string): Currency | undefined {
-  const t = text.toLowerCase();
-  if (/\b(aed|dh|dhs|dirham|dirhams)\b/.test(t)) return "AED";
-  if (/\b(usd|dollar|dollars)\b/.test(t) || /\$/.test(t)) return "USD";
-  if (/\b(eur|euro|euros)\b/.test(t) || /€/.test(t)) return "EUR";
-  return undefined;
+type SplitBreakdown = {
+  action: ActionKind;
+  total: number;
+  parts: SplitPart[];
+  spans: TokenSpan[]; // the total and each part's category, in the segment
+  balanced: boolean;
+};
+
+const SPLIT_ACTIONS: ActionKind[] = ["spend", "buy", "sell"];
+
+// "600 rent" / "rent 600" / "200 aed for internet" -> { amount, category }
+function parseSplitPart(text: string): { amount: number; category?: TextMatch } | undefined {
+  const amount = parseAmount(text)?.value;
+  if (!amount) return undefined;
+  const currency = new RegExp(String.raw`\b${CURRENCY_TOKEN_RE}(?=\s|$)|[$€]`, "gi");
+  const connector = /^\s*(?:and|for|on|of|to|towards)\b/i;
+  const category = stripWithholding(normalizeNumbers(text))
+    .replace(/\d+(?:,\d{3})*(?:\.\d+)?/g, " ")
+    .replace(currency, " ")
+    .replace(connector, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!category) return { amount };
+  // the same cuts in place, on the numbers as typed, for where it was typed
+  const typed = stripWithholding(text)
+    .replace(NUMBER_TOKEN_RE, blank)
+    .replace(currency, blank)
+    .replace(connector, blank);
+  const start = typed.search(/\S/);
+  return { amount, category: { value: category, span: start >= 0 ? [start, typed.trimEnd().length] : undefined } };
 }
 
 /**
- * FIXED: ignore dates when searching for the "amount"
- * and pick the LAST remaining number in the segment.
+ * One payment, several categories:
+ *   "paid 900 aed: 600 rent, 200 internet, 100 cleaning"
+ *   "paid 900 aed, of which 600 rent, 200 internet and 100 cleaning"
+ *   "paid 900 aed, 600 rent, 200 internet, 100 cleaning"
+ * Returns undefined when the segment is not a breakdown; `balanced` is false
+ * when the parts do not add up to the total.
  */
-function parseAmount(text: string): number | undefined {
-  const scrubbed = stripOrdinal(text)
-    .replace(/\b\d{4}-\d{2}-\d{2}\b/g, " ")
-    .replace(/\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/g, " ")
-    .replace(
-      /\b(\d{1,2})\s+(jan|january|feb|february|mar|march|apr|april|may|jun|june|jul|july|aug|august|sep|sept|september|oct|october|nov|november|dec|december)\s*(\d{2,4})?\b/gi,
-      " "
-    )
-    .replace(
-      /\b(jan|january|feb|february|mar|march|apr|april|may|jun|june|jul|july|aug|august|sep|sept|september|oct|october|nov|november|dec|december)\s+(\d{1,2})\s*(\d{2,4})?\b/gi,
-      " "
-    );
+function parseSplit(text: string): SplitBreakdown | undefined {
+  const action = parseAction(text);
+  if (!action || !SPLIT_ACTIONS.includes(action)) return undefined;
+
+  const colon = text.match(new RegExp(String.raw`^(.*?)(?:(?<!\d)\s*:|:\s+)(.+)$`, "d"));
+  const ofWhich = text.match(new RegExp(String.raw`^(.*?),?\s*\bof which\b\s*(.+)$`, "di"));
+  const comma = text.match(new RegExp(String.raw`^(.*?),(?!\d{3}\b)\s*(.+)$`, "d"));
+  const m = ofWhich ?? colon ?? comma;
+  if (!m) return undefined;
+
+  const total = parseAmount(m[1]);
+  if (!total) return undefined;
+
+  const rawParts = splitPiece({ text: m[2], start: m.indices?.[2]?.[0] ?? 0 }, /,(?!\d{3}\b)|\band\b/gi)
+    .map(trimPiece)
+    .filter((x) => x.text);
+  const parts = rawParts.map((x) => parseSplitPart(x.text));
+  if (parts.length < 2 || parts.some((x) => !x)) return undefined;
+
+  const ok = parts as NonNullable<(typeof parts)[number]>[];
+  const spans: TokenSpan[] = [];
+  if (total.span) spans.push({ field: "amount", start: total.span[0], end: total.span[1] });
+  ok.forEach((x, i) => {
+    const at = x.category?.span;
+    if (at) spans.push({ field: "category", start: rawParts[i].start + at[0], end: rawParts[i].start + at[1] });
+  });
+  const sum = round2(ok.reduce((acc, x) => acc + x.amount, 0));
+  return {
+    action,
+    total: total.value,
+    parts: ok.map((x) => ({ amount: x.amount, category: x.category?.value })),
+    spans,
+    balanced: Math.abs(sum - total.value) <= 0.01,
+  };
+}
 
-  const matches = [
-    ...scrubbed.matchAll(/(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?/g),
+const AMOUNT_RE = String.raw`(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?`;
+const CURRENCY_WORD_RE = String.raw`(?:aed|dhs?|dirhams?|usd|dollars?|eur|euros?)\b`;
+const AR_CURRENCY_RE = arabicVariants(`${AR_AED}|${AR_USD}|${AR_EUR}`);
+// A number as typed: ASCII or Arabic-Indic digits, separators, a "k" / "m" suffix.
+const NUMBER_TOKEN_RE = /[0-9\u0660-\u0669\u06F0-\u06F9](?:[0-9\u0660-\u0669\u06F0-\u06F9.,\u066B\u066C]*[0-9\u0660-\u0669\u06F0-\u06F9])?(?:\s?(?:k|m|mn|bn)\b)?/gi;
+
+/**
+ * FIXED: ignore dates (incl. relative / Hijri / quarter phrases) when searching
+ * for the "amount" and pick the LAST remaining number in the segment.
+ *
+ * Numbers are normalised first ("2.5k", "five hundred", "١٢٠٠", "1.234,56"),
+ * and a number written next to a currency ("120 aed", "$50") wins over the
+ * last number, so "spent 120 aed on 2 chairs" posts 120.
+ * Quantity × unit price ("3 laptops at 1200 each") returns the extended total.
+ */
+function parseAmount(text: string): TextMatch<number> | undefined {
+  const qty = parseQuantity(text);
+  if (qty) return { value: round2(qty.quantity * qty.unitPrice) };
+
+  const scrubbed = stripWithholding(scrubDates(normalizeNumbers(text)));
+
+  const tagged = [
+    ...scrubbed.matchAll(new RegExp(String.raw`${AMOUNT_RE}\s*(?:${CURRENCY_WORD_RE}|${AR_CURRENCY_RE}|[$€])`, "gi")),
+    ...scrubbed.matchAll(new RegExp(String.raw`(?:\b${CURRENCY_WORD_RE}|${AR_CURRENCY_RE}|[$€])\s*${AMOUNT_RE}`, "gi")),
   ];
+  const matches = tagged.length ? tagged : [...scrubbed.matchAll(new RegExp(AMOUNT_RE, "g"))];
   if (matches.length === 0) return undefined;
 
-  const m = matches[matches.length - 1];
+  const m = matches.sort((a, b) => (a.index ?? 0) - (b.index ?? 0))[matches.length - 1];
   const raw = m[1].replace(/,/g, "") + (m[2] ? `.${m[2]}` : "");
   const n = Number(raw);
 
   if (!Number.isFinite(n) || n <= 0) return undefined;
-  return round2(n);
+  return { value: round2(n), span: typedAmountSpan(text, round2(n), tagged.length > 0) };
+}
+
+const CURRENCY_AFTER_RE = new RegExp(String.raw`^\s*(?:${CURRENCY_WORD_RE}|${AR_CURRENCY_RE}|[$€])`, "i");
+const CURRENCY_BEFORE_RE = new RegExp(String.raw`(?:\b${CURRENCY_WORD_RE}|${AR_CURRENCY_RE}|[$€])\s*$`, "i");
+
+// Normalising rewrites numbers ("2.5k", "١٢٠٠"), so the number parseAmount
+// picked is found again among the numbers as typed, by the same rule: the last
+// one with that value, next to a currency when that is what decided.
+function typedAmountSpan(text: string, value: number, tagged: boolean): [number, number] | undefined {
+  const t = stripWithholding(text);
+  const dates = findDateSpans(text);
+  const typed = [...t.matchAll(NUMBER_TOKEN_RE)]
+    .map((m): [number, number] => [m.index ?? 0, (m.index ?? 0) + m[0].length])
+    .filter(([start]) => !dates.some(([from, to]) => start >= from && start < to))
+    .filter(
+      ([start, end]) => !tagged || CURRENCY_AFTER_RE.test(t.slice(end)) || CURRENCY_BEFORE_RE.test(t.slice(0, start))
+    )
+    .filter(([start, end]) => round2(Number(normalizeNumbers(t.slice(start, end)).replace(/,/g, ""))) === value);
+  return typed[typed.length - 1];
+}
+
+// Arabic verbs / nouns per action, in the same priority order as parseAction.
+const AR = {
+  dividend: "ارباح|توزيعات",
+  declare: "اعلن|اعلنا|اعلنت|اقر|اقرار|اعتماد|اعتمدنا",
+  pay: "دفع|دفعت|دفعنا|وزع|وزعنا|صرف|صرفنا",
+  drawings: "مسحوبات",
+  withdrew: "سحب|سحبت|سحبنا",
+  invested: "استثمر|استثمرت|ضخ|ضخت|ضخينا|ساهم|ساهمت|اودع",
+  owner: "المالك|مالك|الشريك|شريك|المساهم|مساهم|شخصي|شخصيه",
+  capital: "راس مال|راس المال|راسمال",
+  purchaseReturn: "مرتجع مشتريات|مرتجعات مشتريات|ارجعنا|ارجعت|استرداد من المورد",
+  salesReturn: "مرتجع مبيعات|مرتجعات مبيعات|مرتجع|ارجع|استرداد|استرجاع",
+  repaidMe: "سدد لي|سدد لنا|رد لي|رد لنا|ارجع لي",
+  repay: "سددت|سددنا|سداد|سدد",
+  loan: "قرض|القرض|البنك|بنك",
+  received: "استلمت|استلمنا|قبضت|قبضنا|تحصيل|تحصلنا",
+  supplier: "المورد|مورد|فاتوره|الفاتوره",
+  transfer: "حولت|حولنا|تحويل|نقلت|نقلنا|اودعت|اودعنا",
+  lend: "اقرضت|اقرضنا|سلفت|اسلفت|اسلفنا",
+  borrow: "اقترضت|اقترضنا|استلفت|استلفنا|اقتراض",
+  buy: "اشتريت|اشترينا|اشتري|شراء",
+  sell: "بعت|بعنا|باع|بيع",
+  spend: "دفعت|دفعنا|دفع|صرفت|صرفنا|صرف|انفقت|انفقنا",
+};
+
+function parseArabicAction(text: string): ActionKind | undefined {
+  const has = (words: string) => hasArabicWord(text, words);
+
+  if (has(AR.dividend)) return has(AR.pay) && !has(AR.declare) ? "pay_dividend" : "declare_dividend";
+  if (has(AR.drawings) || (has(AR.withdrew) && has(AR.owner))) return "draw";
+  if ((has(AR.invested) && has(AR.owner)) || (has(AR.capital) && has(AR.invested))) return "contribute";
+
+  if (has(AR.purchaseReturn)) return "purchase_return";
+  if (has(AR.salesReturn)) return "sales_return";
+
+  if (has(AR.repaidMe)) return "collect_loan";
+  if (has(AR.repay)) return has(AR.loan) ? "repay" : "settle";
+  if (has(AR.received)) return "collect";
+  if (has(AR.pay) && has(AR.supplier)) return "settle";
+
+  if (has(AR.transfer)) return "transfer";
+
+  if (has(AR.lend)) return "lend";
+  if (has(AR.borrow)) return "borrow";
+  if (has(AR.buy)) return "buy";
+  if (has(AR.sell)) return "sell";
+  if (has(AR.spend)) return "spend";
+
+  return undefined;
 }
 
 function parseAction(text: string): ActionKind | undefined {
+  if (hasArabic(text)) {
+    const ar = parseArabicAction(text);
+    if (ar) return ar;
+  }
+
   const t = text.toLowerCase();
 
+  // Equity first: "paid dividend" / "received capital from owner" must not
+  // read as spend / collect.
+  if (/\bdividends?\b/.test(t)) {
+    if (/\b(declare|declared|approved|announced)\b/.test(t)) return "declare_dividend";
+    if (/\b(pay|paid|distributed|settled)\b/.test(t)) return "pay_dividend";
+    return "declare_dividend";
+  }
+  if (/\b(drawings?|withdrew|withdrawal|took out)\b/.test(t) && /\b(owner|partner|shareholder|personal|drawings?)\b/.test(t)) {
+    return "draw";
+  }
+  if (/\b(invest|invested|injected|contributed)\b/.test(t) && /\b(owner|partner|shareholder|founder|capital)\b/.test(t)) {
+    return "contribute";
+  }
+  if (/\bcapital\s+(contribution|injection)\b/.test(t)) return "contribute";
+
+  // Returns / refunds / credit notes next: "received a refund from ..." would
+  // otherwise read as a collection, "returned goods" as nothing at all.
+  if (/\b(supplier|vendor)\b.*\b(refund|refunded|credit note)\b/.test(t)) return "purchase_return";
+  if (/\b(refund|credit note)\s+from\b/.test(t)) return "purchase_return";
+  if (/\breturned\b.*\bto\s+(the\s+)?(supplier|vendor)\b/.test(t)) return "purchase_return";
+  if (/\b(we|i)\s+returned\b/.test(t)) return "purchase_return";
+  if (/\b(received|got)\b.*\b(refund|credit note)\b/.test(t)) return "purchase_return";
+  if (/\b(returned|return of|refund|refunded|credit note)\b/.test(t)) return "sales_return";
+
+  // Settlements next: "repaid", "received payment" etc. would otherwise
+  // fall through to borrow/spend below.
+  if (/\b(repaid|paid back)\s+(me|us)\b/.test(t)) return "collect_loan";
+  if (/\b(received|collected|got)\b.*\brepayment\b/.test(t)) return "collect_loan";
+  if (/\b(repay|repaid|paid back)\b/.test(t)) return "repay";
+  if (/\b(received|collected)\b/.test(t) && /\b(payment|from)\b/.test(t)) return "collect";
+  if (/\b(settle|settled)\b/.test(t)) return "settle";
+  if (/\b(pay|paid)\s+(the\s+)?(supplier|vendor|invoice|bill)\b/.test(t)) return "settle";
+
+  if (/\b(transfer|transferred|moved|deposited)\b/.test(t)) return "transfer";
+
   if (/\b(lend|lent|loaned)\b/.test(t)) return "lend";
   if (/\b(borrow|borrowed)\b/.test(t)) return "borrow";
   if (/\b(buy|bought|purchase|purchased)\b/.test(t)) return "buy";
@@ -153,45 +366,307 @@ function parseAction(text: string): ActionKind | undefined {
   return undefined;
 }
 
-function parseCounterparty(text: string, action?: ActionKind): string | undefined {
-  const toMatch = text.match(/\bto\s+([a-zA-Z][^,.\n;]*)/i);
-  const fromMatch = text.match(/\bfrom\s+([a-zA-Z][^,.\n;]*)/i);
+const ROLE_VERBS =
+  "returned|refunded|repaid|paid|sent|issued|gave|invested|injected|contributed|withdrew|took";
+
+// "supplier Gulf Traders 800 aed" -> "Gulf Traders"
+function parseRoleName(text: string, roles: string[]): TextMatch | undefined {
+  const re = new RegExp(
+    `\\b(?:${roles.join("|")})\\s+(?!(?:${ROLE_VERBS})\\b)([a-zA-Z][^,.\\n;]*?)(?=\\s+\\d|\\s+(?:for|on|of|worth|${ROLE_VERBS})\\b|[,.\\n;]|$)`,
+    "di"
+  );
+  return groupMatch(text.match(re));
+}
+
+// "اقترضت 10000 درهم من البنك" -> "البنك"; "بعت خدمات إلى شركة أكمي بـ 2000" -> "شركة أكمي"
+function parseArabicCounterparty(text: string, action?: ActionKind): TextMatch | undefined {
+  const t = stripArabicMarks(text);
+  const stop = `(?=\\s+(?:${arabicVariants("مقابل|على|عن|بمبلغ|بقيمه|من|الى|في|ب")})(?![${AR_LETTER}])|\\s*\\d|\\s+ب|[،,.؛\\n]|$)`;
+  const after = (words: string) => {
+    const m = t.match(new RegExp(`(?:^|\\s)(?:${arabicVariants(words)})\\s+([^\\s\\d،,.؛][^\\d،,.؛\\n]*?)${stop}`, "d"));
+    return unmarked(text, groupMatch(m));
+  };
+
+  // a transfer moves money between own accounts: "من البنك الى الصندوق" names accounts, not a party
+  if (action === "transfer") return undefined;
+
+  const fromActions: ActionKind[] = ["borrow", "buy", "collect", "collect_loan", "contribute", "purchase_return", "sales_return"];
+  if (action === "settle" || action === "purchase_return") {
+    const supplier = after("المورد");
+    if (supplier) return supplier;
+  }
+  if (action === "collect" || action === "sales_return") {
+    const customer = after("العميل");
+    if (customer) return customer;
+  }
+  return action && fromActions.includes(action) ? after("من") : after("الى|لصالح");
+}
+
+// "of" only ends a name before an amount: "from Acme of 300 aed", but "Bank of America"
+const NAME_END = String.raw`(?=\s+\d|\s+(?:for|on|at|via|using|through|by|with|worth|into|from|to)\b|\s+of\s+(?:\d|${CURRENCY_TOKEN_RE})|[,.\n;]|$)`;
+
+function parseCounterparty(text: string, action?: ActionKind): TextMatch | undefined {
+  if (hasArabic(text)) {
+    const ar = parseArabicCounterparty(text, action);
+    if (ar) return ar;
+  }
+
+  // the name ends before an amount or the next clause ("to Acme for 2000 on 3 march" -> "Acme")
+  const toMatch = groupMatch(text.match(new RegExp(`\\bto\\s+([a-zA-Z][^,.\\n;]*?)${NAME_END}`, "di")));
+  const fromMatch = groupMatch(text.match(new RegExp(`\\bfrom\\s+([a-zA-Z][^,.\\n;]*?)${NAME_END}`, "di")));
 
   if (action === "lend" || action === "sell") {
-    if (toMatch?.[1]) return toMatch[1].trim();
+    if (toMatch) return toMatch;
   }
   if (action === "borrow" || action === "buy") {
-    if (fromMatch?.[1]) return fromMatch[1].trim();
+    if (fromMatch) return fromMatch;
+  }
+  if (action === "collect" || action === "collect_loan") {
+    if (fromMatch) return fromMatch;
+    const repaidBy = groupMatch(
+      text.match(new RegExp(String.raw`^\s*([a-zA-Z][^,.\n;]*?)\s+(?:repaid|paid back)\b`, "di"))
+    );
+    if (repaidBy && !/^(i|we)$/i.test(repaidBy.value)) return repaidBy;
+  }
+  if (action === "spend") {
+    // "paid 300 to DEWA for electricity" -> "DEWA"
+    const payee = groupMatch(
+      text.match(new RegExp(String.raw`\bto\s+([a-zA-Z][^,.\n;]*?)(?=\s+(?:for|on|of|from|via|using|through|by)\b|[,.\n;]|$)`, "di"))
+    );
+    if (payee) return payee;
+  }
+  if (action === "settle") {
+    const supplier = parseRoleName(text, ["supplier", "vendor"]);
+    if (supplier) return supplier;
+    if (toMatch) return toMatch;
+  }
+  if (action === "contribute" || action === "draw") {
+    const owner = parseRoleName(text, ["owner", "partner", "shareholder", "founder"]);
+    if (owner) return owner;
+    if (action === "contribute" && fromMatch) return fromMatch;
+  }
+  if (action === "pay_dividend" || action === "declare_dividend") {
+    if (toMatch) return toMatch;
+  }
+  if (action === "sales_return") {
+    const customer = parseRoleName(text, ["customer", "client"]);
+    if (customer) return customer;
+    if (toMatch) return toMatch;
+    if (fromMatch) return fromMatch;
+  }
+  if (action === "purchase_return") {
+    const supplier = parseRoleName(text, ["supplier", "vendor"]);
+    if (supplier) return supplier;
+    if (fromMatch) return fromMatch;
+    if (toMatch) return toMatch;
+  }
+  if (action === "repay") {
+    if (toMatch) return toMatch;
   }
 
-  const friend = text.match(/\b(a|my)\s+friend\b/i);
-  if (friend) return "Friend";
+  const friend = groupMatch(text.match(new RegExp(String.raw`\b(?:a|my)\s+(friend)\b`, "di")));
+  if (friend) return { ...friend, value: "Friend" };
 
   return undefined;
 }
 
+// Money moving OUT of a cash/bank account names it with "from / via / using";
+// money coming IN names it with "into / to ... account". Inflow "from X" is the
+// counterparty, not the bank.
+const OUTFLOW_ACTIONS: ActionKind[] = [
+  "lend",
+  "buy",
+  "spend",
+  "settle",
+  "repay",
+  "draw",
+  "pay_dividend",
+  "sales_return",
+];
+
+const AR_CASH_WORDS = "بنك|صندوق|نقد|كاش|بطاقه|حساب";
+const EN_CASH_WORDS = /\b(?:bank|cash|card|wallet|account|till)\b/i;
+
+// Cash / bank accounts in the chart: named as such, or named after the bank
+// ("Emirates NBD AED"), which accountTypeOf only places by its normal side.
+function chartCashAccounts(allowedAccounts: string[] = []): string[] {
+  return allowedAccounts.filter(
+    (name) =>
+      EN_CASH_WORDS.test(name) ||
+      accountTypeOf({ name, normalSide: "debit" }) !== accountTypeOf({ name, normalSide: "credit" })
+  );
+}
+
+function isCashAccountName(candidate: string, cashAccounts: string[]) {
+  const c = candidate.toLowerCase();
+  return (
+    EN_CASH_WORDS.test(candidate) ||
+    cashAccounts.some((a) => {
+      const n = a.toLowerCase();
+      return n === c || n.startsWith(`${c} `) || c.startsWith(`${n} `);
+    })
+  );
+}
+
+const ACCOUNT_STOP = String.raw`(?=\s+\d|\s+(?:to|into|for|on|of|account|via|using|through)\b|[,.;\n]|$)`;
+
+function parseCashAccounts(
+  text: string,
+  action?: ActionKind,
+  cashAccounts: string[] = []
+): { cashAccount?: TextMatch; transferToAccount?: TextMatch } {
+  if (action === "transfer" && hasArabic(text)) {
+    // "حولت 5000 درهم من البنك إلى الصندوق"
+    const t = stripArabicMarks(text);
+    const word = `([^\\s\\d،,.؛][^\\d،,.؛\\n]*?)`;
+    const stop = `(?=\\s+(?:${arabicVariants("الى|من")})\\s|\\s*\\d|[،,.؛\\n]|$)`;
+    const from = unmarked(text, groupMatch(t.match(new RegExp(`(?:^|\\s)من\\s+${word}${stop}`, "d"))));
+    const to = unmarked(
+      text,
+      groupMatch(t.match(new RegExp(`(?:^|\\s)(?:${arabicVariants("الى|في")})\\s+${word}${stop}`, "d")))
+    );
+    if (from || to) return { cashAccount: from, transferToAccount: to };
+  } else if (hasArabic(text)) {
+    // "دفعت 300 درهم من البنك على الإيجار". "من" also introduces suppliers, so
+    // after it only bank / cash nouns count; "عبر" / "بواسطة" take any name.
+    const t = stripArabicMarks(text);
+    const outflow = action && OUTFLOW_ACTIONS.includes(action);
+    const m =
+      t.match(new RegExp(`(?:^|\\s)(?:${arabicVariants(outflow ? "عبر|بواسطه" : "في")})\\s+([^\\s\\d،,.؛]+)`, "d")) ??
+      (outflow
+        ? t.match(new RegExp(`(?:^|\\s)من\\s+((?:ال)?(?:${arabicVariants(AR_CASH_WORDS)}))(?![${AR_LETTER}])`, "d"))
+        : null);
+    if (m) return { cashAccount: unmarked(text, groupMatch(m)) };
+  }
+
+  if (action === "transfer") {
+    const both = text.match(
+      new RegExp(String.raw`\bfrom\s+(?:the\s+|our\s+|my\s+)?([a-zA-Z][^,.;\n]*?)\s+(?:to|into)\s+(?:the\s+|our\s+|my\s+)?([a-zA-Z][^,.;\n]*?)${ACCOUNT_STOP}`, "di")
+    );
+    if (both) return { cashAccount: groupMatch(both, 1), transferToAccount: groupMatch(both, 2) };
+
+    const toOnly = text.match(
+      new RegExp(String.raw`\b(?:to|into)\s+(?:the\s+|our\s+|my\s+)?([a-zA-Z][^,.;\n]*?)${ACCOUNT_STOP}`, "di")
+    );
+    return { transferToAccount: groupMatch(toOnly) };
+  }
+
+  const pattern =
+    action && OUTFLOW_ACTIONS.includes(action)
+      ? String.raw`\b(from|via|using|through)\s+(?:the\s+|our\s+|my\s+)?([a-zA-Z][^,.;\n]*?)${ACCOUNT_STOP}`
+      : String.raw`\b(into|via)\s+(?:the\s+|our\s+|my\s+)?([a-zA-Z][^,.;\n]*?)${ACCOUNT_STOP}`;
+  // purchases are "from" the supplier too ("bought a laptop from Dell"): there
+  // "from" only names the paying account when it is a bank / cash one
+  const supplierFrom = action === "buy" || action === "spend";
+  const m = [...text.matchAll(new RegExp(pattern, "dgi"))].find(
+    (x) => !supplierFrom || x[1].toLowerCase() !== "from" || isCashAccountName(x[2].trim(), cashAccounts)
+  );
+  return { cashAccount: groupMatch(m ?? null, 2) };
+}
+
 function parseItem(text: string, action?: ActionKind): string | undefined {
   if (action !== "buy" && action !== "sell") return undefined;
-  const m = text.match(/\b(buy|bought|purchase|purchased|sell|sold)\b\s+(.+?)\s+\bfor\b/i);
-  if (m?.[2]) return m[2].trim();
+  // ends before the price or the party: "sold consulting to Acme for 2000" -> "consulting";
+  // "of" only before an amount, so "a box of pens" stays whole
+  const m = text.match(
+    new RegExp(
+      String.raw`\b(buy|bought|purchase|purchased|sell|sold)\b\s+(.+?)\s+(?:\b(?:for|at|to|from)\b|of\s+(?:\d|${CURRENCY_TOKEN_RE})|@|\bx\b|×)`,
+      "i"
+    )
+  );
+  // "bought 3 laptops at 1200 each" -> "laptops"
+  const item = m?.[2]
+    ?.replace(/^\d+(?:\.\d+)?\s+/, "")
+    .replace(/\s+\d.*$/, "") // "consulting 250 aed per hour" -> "consulting"
+    .trim();
+  if (item && !/^\d/.test(item)) return item;
   return undefined;
 }
 
+// Arabic has no fixed "on/for" slot: the clause after a preposition, or else
+// what is left once the payee / payment-source clause, "بمبلغ" and the verbs
+// are cut out (`cut` stands in for each).
+function arabicCategoryRest(t: string, cut: (phrase: string) => string): TextMatch | undefined {
+  const prep = t.match(
+    new RegExp(`(?:^|\\s)(?:${arabicVariants("على|مقابل|عن|بخصوص|لشراء|من اجل")})\\s+([^،,.؛\\n]+)$`, "d")
+  );
+  if (prep) return groupMatch(prep);
+  const rest = t
+    // payee / source clause runs to the end: "... من شركة التقنية"
+    .replace(new RegExp(`(?:^|\\s)(?:${arabicVariants("من|الى|لصالح|عبر|بواسطه|عن طريق")})\\s+.*$`), cut)
+    .replace(new RegExp(`(?:^|\\s)(?:${arabicVariants("بمبلغ|بقيمه|ب")})(?![${AR_LETTER}])`, "g"), cut)
+    .replace(new RegExp(`(?:^|\\s)(?:${arabicVariants(Object.values(AR).join("|"))})(?![${AR_LETTER}])`, "g"), cut);
+  const start = rest.search(/\S/);
+  return start < 0 ? undefined : { value: rest.trim(), span: [start, rest.trimEnd().length] };
+}
+
+// "دفعت 500 درهم إيجار" -> "إيجار"; "صرفت ١٢٠ درهم على مستلزمات مكتبية" -> "مستلزمات مكتبية".
+// Amounts, currency and dates are dropped first.
+function parseArabicCategory(input: string): TextMatch | undefined {
+  const currency = new RegExp(`${AR_CURRENCY_RE}|[$€]`, "g");
+  const currencyWord = new RegExp(String.raw`\b${CURRENCY_WORD_RE}`, "gi");
+  const t = stripArabicMarks(stripTaxPhrases(scrubDates(normalizeNumbers(input))))
+    .replace(/\d+(?:[.,]\d+)*/g, " ")
+    .replace(currency, " ")
+    .replace(currencyWord, " ");
+
+  // "للكهرباء" -> "الكهرباء"
+  const category = (arabicCategoryRest(t, () => " ")?.value ?? "")
+    .replace(/(^|\s)لل(?=[\u0621-\u064A])/g, "$1ال")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!category || !hasArabic(category)) return undefined;
+
+  // the same cuts in place on the text as typed, for where it was typed
+  const typed = stripTaxPhrases(blankDates(stripArabicMarks(input)))
+    .replace(NUMBER_TOKEN_RE, blank)
+    .replace(currency, blank)
+    .replace(currencyWord, blank);
+  return unmarked(input, { value: category, span: arabicCategoryRest(typed, blank)?.span });
+}
+
+const AMOUNT_ONLY_RE = new RegExp(
+  String.raw`^(?:${CURRENCY_TOKEN_RE}\s*)?\d[\d.,]*(?:\s*(?:k|m|mn|bn)\b)?(?:\s*${CURRENCY_TOKEN_RE})?$`,
+  "i"
+);
+
 // Candidate expense/category from natural language.
 // STRICT: we only post to it if it exists in allowed accounts map.
-function parseExpenseAccount(text: string): string | undefined {
-  const onMatch = text.match(/\bon\s+([^,.;\n]+)$/i);
-  if (onMatch?.[1]) return onMatch[1].trim();
+function parseExpenseAccount(input: string): TextMatch | undefined {
+  if (hasArabic(input)) {
+    const ar = parseArabicCategory(input);
+    if (ar) return ar;
+  }
 
-  const forMatch = text.match(/\bfor\s+([^,.;\n]+)$/i);
-  if (forMatch?.[1]) return forMatch[1].trim();
+  // drop dates and the payment source: "on rent yesterday", "for rent by card from Mashreq",
+  // "from ENBD on rent" -> "rent"
+  const text = stripTaxPhrases(blankDates(input)).replace(
+    /\s+(?:(?:paid\s+)?by\s+card(?:\s+from)?|from|via|using|through)\s+.*?(?=\s+(?:on|for|of)\s|$)/i,
+    blank
+  );
 
-  const ofMatch = text.match(/\bof\s+([^,.;\n]+)$/i);
-  if (ofMatch?.[1]) return ofMatch[1].trim();
+  for (const word of ["on", "for", "of"]) {
+    const m = groupMatch(text.match(new RegExp(String.raw`\b${word}\s+([^,.;\n]+)$`, "di")));
+    // "a refund of 300 aed" names the amount, not a category
+    if (m && !AMOUNT_ONLY_RE.test(m.value)) return { ...m, value: m.value.replace(/\s+/g, " ") };
+  }
 
   return undefined;
 }
 
+// "paid the rent yesterday" (no amount yet) -> "rent": with no "on" / "for" to
+// anchor on, whatever follows the verb is the category.
+function parseBareCategory(input: string): TextMatch | undefined {
+  const m = groupMatch(
+    blankDates(input).match(new RegExp(String.raw`^\s*[a-z]+\s+(?:(?:the|my|our|a|an|some)\s+)?([a-z][a-z &/-]*?)\s*$`, "di"))
+  );
+  return m && { ...m, value: m.value.replace(/\s+/g, " ") };
+}
+
+function usesExpenseAccount(action: ActionKind) {
+  return action === "spend" || action === "buy" || action === "purchase_return";
+}
+
 type VatSplit = { base: number; vat: number; total: number };
 
 function splitVAT(amount: number, rate: number, inclusive: boolean): VatSplit {
@@ -209,22 +684,208 @@ function line(account: string, debit = 0, credit = 0): JournalLine {
   return { account, debit: round2(debit), credit: round2(credit) };
 }
 
-function normalizeAccountKey(s: string) {
-  return s.trim().toLowerCase();
+// --------------------------
+// Tax codes
+// --------------------------
+
+export const TAX_CODE_LABELS: Record<TaxCode, string> = {
+  standard: "Standard rated",
+  zero_rated: "Zero rated",
+  exempt: "Exempt",
+  out_of_scope: "Out of scope",
+  reverse_charge: "Reverse charge",
+};
+
+// "zero rated", "imported services", "VAT exempt", "out of scope" (+ Arabic) in the text.
+const TAX_PHRASES: [TaxCode, RegExp][] = [
+  ["reverse_charge", /\b(?:reverse[- ]charge[d]?|imported services?|import of services?|services? from abroad)\b|احتساب عكسي|خدمات مستورد[ةه]/i],
+  ["zero_rated", /\b(?:zero[- ]rated|0% vat|zero vat)\b|نسب[ةه] صفري[ةه]|معدل صفري/i],
+  ["exempt", /\b(?:vat[- ]exempt|exempt(?:ed)? from vat|exempt)\b|معف[يى] من الضريب[ةه]|معف[يى]/i],
+  ["out_of_scope", /\b(?:out of scope|outside (?:the )?scope|no vat|non[- ]vat)\b|خارج نطاق الضريب[ةه]/i],
+];
+
+function parseTaxCode(text: string): TaxCode | undefined {
+  return TAX_PHRASES.find(([, re]) => re.test(text))?.[0];
+}
+
+// "plus VAT", "excl. VAT" / "incl. VAT" (+ Arabic): whether the stated amount has the VAT in it.
+// Net is tried first: "غير شامل الضريبة" contains "شامل الضريبة".
+const VAT_BASIS_PHRASES: ["net" | "gross", RegExp][] = [
+  ["net", /\b(?:plus|excl(?:uding|usive of)?\.?|before|ex)\s*vat\b|\+\s*vat\b|\bvat[- ]exclusive\b|غير شامل[ةه]? (?:ل)?(?:ال)?ضريب[ةه]|قبل (?:ال)?ضريب[ةه]|\+\s*(?:ال)?ضريب[ةه]/i],
+  ["gross", /\bincl(?:uding|usive of)?\.?\s*vat\b|\bvat[- ]inclusive\b|شامل[ةه]? (?:ل)?(?:ال)?ضريب[ةه]/i],
+];
+
+function parseAmountBasis(text: string): "net" | "gross" | undefined {
+  return VAT_BASIS_PHRASES.find(([, re]) => re.test(text))?.[0];
+}
+
+function stripTaxPhrases(text: string) {
+  return [...TAX_PHRASES, ...VAT_BASIS_PHRASES].reduce((t, [, re]) => t.replace(new RegExp(re.source, "gi"), blank), text);
+}
+
+// --------------------------
+// Withholding tax
+// --------------------------
+
+const WHT_WORD = String.raw`(?:wht|withholding(?:\s+tax)?)`;
+
+// "less 5% WHT", "withholding tax at 5%", "مع استقطاع 5%": the rate withheld from the vendor.
+const WITHHOLDING_PHRASES: RegExp[] = [
+  new RegExp(String.raw`(?:\b(?:less|minus|net of|after|with)\s+)?(\d+(?:\.\d+)?)\s*%\s*(?:of\s+)?${WHT_WORD}\b`, "i"),
+  new RegExp(String.raw`(?:\b(?:less|minus|net of|after|with)\s+)?\b${WHT_WORD}\s+(?:of\s+|at\s+)?(\d+(?:\.\d+)?)\s*%`, "i"),
+  /(?:مع\s+)?(?:ضريب[ةه]\s+)?استقطاع\s+(?:بنسب[ةه]\s+)?(\d+(?:\.\d+)?)\s*[%٪]/,
+  /(?:مع\s+)?(\d+(?:\.\d+)?)\s*[%٪]\s*(?:ضريب[ةه]\s+)?استقطاع/,
+];
+
+function parseWithholdingRate(text: string): number | undefined {
+  const t = normalizeNumbers(text);
+  for (const re of WITHHOLDING_PHRASES) {
+    const m = t.match(re);
+    if (!m) continue;
+    const pct = Number(m[1]);
+    return pct > 0 && pct < 100 ? pct / 100 : undefined;
+  }
+  return undefined;
+}
+
+// The percentage is not the amount, and "less 5% WHT" is not part of the payee or category.
+function stripWithholding(text: string) {
+  return WITHHOLDING_PHRASES.reduce((t, re) => t.replace(new RegExp(re.source, `${re.flags}g`), blank), text);
+}
+
+// Text, then the category rule, then the account default, then the composer default.
+function resolveTaxCode(
+  ev: ParsedEvent,
+  account: string,
+  rule: CategoryRule | null,
+  defaults: Pick<ComposerState, "vatEnabled">,
+  accountTaxCodes?: Record<string, TaxCode>
+): TaxCode | undefined {
+  if (ev.taxCode) return ev.taxCode;
+  if (rule && rule.vat !== "default") return rule.vat;
+  return accountTaxCodes?.[account] ?? (defaults.vatEnabled ? "standard" : undefined);
+}
+
+function vatLine(account: string, amount: number, side: "debit" | "credit", taxCode: TaxCode, taxKind: TaxKind): JournalLine {
+  return { ...(side === "debit" ? line(account, amount, 0) : line(account, 0, amount)), taxCode, taxKind, vatLine: true };
+}
+
+// VAT lines for one base line: purchases feed Input VAT, sales Output VAT, on
+// the base line's side. Reverse charge self-assesses both: Input VAT on the
+// base side, Output VAT opposite, so the supplier is paid the net amount.
+function vatLinesFor(base: JournalLine, vat: number): JournalLine[] {
+  if (!base.taxCode || !base.taxKind || vat <= 0) return [];
+  const side = base.debit > 0 ? "debit" : "credit";
+  const own = base.taxKind === "purchase" ? "Input VAT" : "Output VAT";
+  if (base.taxCode !== "reverse_charge") return [vatLine(own, vat, side, base.taxCode, base.taxKind)];
+  if (base.taxKind === "sale") return []; // the customer accounts for it
+  return [
+    vatLine("Input VAT", vat, side, "reverse_charge", "purchase"),
+    vatLine("Output VAT", vat, side === "debit" ? "credit" : "debit", "reverse_charge", "purchase"),
+  ];
+}
+
+function taxRateOf(code: TaxCode | undefined, rate: number) {
+  return code === "standard" || code === "reverse_charge" ? rate : 0;
+}
+
+// Base + VAT lines for a gross amount, and what the cash / AR / AP side settles.
+function taxedLines(
+  account: string,
+  amount: number,
+  side: "debit" | "credit",
+  tax: { code?: TaxCode; kind: TaxKind },
+  rate: number,
+  inclusive: boolean
+): { lines: JournalLine[]; settle: number } {
+  // reverse charge: the supplier's invoice has no VAT in it
+  const v =
+    tax.code === "reverse_charge"
+      ? { base: round2(amount), vat: round2(amount * rate), total: round2(amount) }
+      : splitVAT(amount, taxRateOf(tax.code, rate), inclusive);
+  const base: JournalLine = {
+    ...(side === "debit" ? line(account, v.base, 0) : line(account, 0, v.base)),
+    ...(tax.code ? { taxCode: tax.code, taxKind: tax.kind } : {}),
+  };
+  return { lines: [base, ...vatLinesFor(base, v.vat)], settle: tax.code === "reverse_charge" ? v.base : v.total };
+}
+
+// Generated VAT lines are folded per account, side and code: one Input VAT line for a split bill.
+function mergeVatLines(lines: JournalLine[]): JournalLine[] {
+  const out: JournalLine[] = [];
+  for (const l of lines) {
+    const same = l.vatLine
+      ? out.find(
+          (x) => x.vatLine && x.account === l.account && x.taxCode === l.taxCode && (x.debit > 0) === (l.debit > 0)
+        )
+      : undefined;
+    if (same) {
+      same.debit = round2(same.debit + l.debit);
+      same.credit = round2(same.credit + l.credit);
+    } else out.push({ ...l });
+  }
+  return out;
+}
+
+/**
+ * Rebuild the generated VAT lines from the base lines' tax codes (after a tax
+ * code or amount was edited), keeping each base amount as the net. The single
+ * line with no tax tag (cash / AR / AP) absorbs the difference; with several
+ * untagged lines the entry is left for the user to balance.
+ */
+export function resplitTaxes(lines: JournalLine[], vatRate: number): JournalLine[] {
+  const kept = lines.filter((l) => !l.vatLine);
+  const rebuilt = mergeVatLines(
+    kept.flatMap((l) => [l, ...vatLinesFor(l, round2((l.debit || l.credit) * taxRateOf(l.taxCode, vatRate)))])
+  );
+
+  const settlement = rebuilt.filter((l) => !l.taxCode);
+  if (settlement.length !== 1) return rebuilt;
+
+  const target = settlement[0];
+  const others = rebuilt.filter((l) => l !== target);
+  const diff = round2(sumDebits(others) - sumCredits(others));
+  const settled: JournalLine = diff >= 0 ? { ...target, debit: 0, credit: diff } : { ...target, debit: -diff, credit: 0 };
+  return rebuilt.map((l) => (l === target ? settled : l));
+}
+
+// Chart name for a candidate: exact, synonym or a confident fuzzy match (see accountMatcher).
+function pickAllowedAccountName(candidate: string | undefined, chart: AccountChart | null): string | null {
+  if (!candidate || !chart) return null;
+  return matchAccount(candidate, chart)?.account ?? null;
 }
 
-function pickAllowedAccountName(candidate: string | undefined, allowedNameMap: Map<string, string> | null): string | null {
-  if (!candidate || !allowedNameMap) return null;
-  const key = normalizeAccountKey(candidate);
-  return allowedNameMap.get(key) ?? null;
+type CategoryResolution = {
+  account: string | null; // null means fallback
+  rule: CategoryRule | null;
+  match: AccountCandidate | null; // set when the chart (not a rule) supplied the account
+};
+
+// Category account: exact chart name, then the entity's rules, then a fuzzy/synonym match.
+function resolveCategory(
+  category: string | undefined,
+  subject: RuleSubject,
+  chart: AccountChart | null,
+  rules: CategoryRule[] | undefined
+): CategoryResolution {
+  const exact = category ? chart?.byKey.get(category.trim().toLowerCase()) : undefined;
+  if (exact) return { account: exact, rule: null, match: { account: exact, score: 1, via: "exact" } };
+
+  const rule = findCategoryRule(rules, subject, (name) => !chart || Boolean(pickAllowedAccountName(name, chart)));
+  if (rule) return { account: pickAllowedAccountName(rule.account, chart) ?? rule.account, rule, match: null };
+
+  const match = category && chart ? matchAccount(category, chart) : null;
+  return { account: match?.account ?? null, rule: null, match };
 }
 
 function generateEntryFromEvent(
   ev: ParsedEvent,
   defaults: Pick<ComposerState, "currency" | "vatEnabled" | "vatRate" | "vatInclusive" | "useARAP">,
-  context: { dateISO: string; currency: Currency },
-  allowedAccountNameMap: Map<string, string> | null,
-  stamp: { entityId: string; businessUnitId?: string }
+  context: { dateISO: string; currency: Currency; cashAccount: string },
+  chart: AccountChart | null,
+  stamp: { entityId: string; businessUnitId?: string },
+  rules?: CategoryRule[],
+  accountTaxCodes?: Record<string, TaxCode>
 ): JournalEntry | null {
   const action = ev.action;
   const amount = ev.amount;
@@ -233,55 +894,166 @@ function generateEntryFromEvent(
   const dateISO = ev.dateISO ?? context.dateISO;
   const currency = ev.currency ?? context.currency;
 
+  // Cash side: explicit "from ENBD" / "into petty cash" if it is in the chart,
+  // else the entity's default cash/bank account.
+  const cash = pickAllowedAccountName(ev.cashAccount, chart) ?? context.cashAccount;
+
   const memoParts: string[] = [];
   memoParts.push(action.toUpperCase());
   if (ev.counterparty) memoParts.push(ev.counterparty);
   if (ev.item) memoParts.push(`(${ev.item})`);
+  if (ev.quantity && ev.unitPrice) memoParts.push(`${ev.quantity} ${ev.unit ?? "units"} @ ${ev.unitPrice}`);
   memoParts.push(ev.raw.trim());
   const memo = memoParts.join(" - ");
 
   const lines: JournalLine[] = [];
 
-  const needsVAT = action === "buy" || action === "sell";
-  const vatRate = needsVAT && defaults.vatEnabled ? defaults.vatRate : 0;
-  const vat = splitVAT(amount, vatRate, defaults.vatInclusive);
+  // quantity breakdown goes on the revenue / expense line
+  const withQty = (l: JournalLine): JournalLine =>
+    ev.quantity && ev.unitPrice ? { ...l, quantity: ev.quantity, unitPrice: ev.unitPrice, unit: ev.unit } : l;
+
+  // Expense side of spend / buy / purchase_return (single category only).
+  const category =
+    usesExpenseAccount(action) && !ev.splits?.length
+      ? resolveCategory(ev.expenseAccount, { text: ev.raw, counterparty: ev.counterparty, amount }, chart, rules)
+      : { account: null, rule: null, match: null };
+  const categoryAccount = category.account ?? "Purchases / Expense";
+  const rule = category.rule;
+
+  // Split parts resolve their own account (and rule) the same way.
+  const partAccount = (p: SplitPart, fallback: string) => {
+    const res = resolveCategory(
+      p.category,
+      { text: p.category ?? "", counterparty: ev.counterparty, amount: p.amount },
+      chart,
+      rules
+    );
+    return { account: res.account ?? fallback, rule: res.rule };
+  };
+
+  // A payment ("paid 900 for ...") is what left the account, VAT included; VAT goes on
+  // top only when the note says so ("plus VAT"). Other actions follow the composer setting.
+  const basis = parseAmountBasis(ev.raw);
+  const inclusive = basis ? basis === "gross" : action === "spend" || defaults.vatInclusive;
+
+  // Revenue / expense lines with their VAT (see resolveTaxCode for the code).
+  const taxed = (account: string, amt: number, side: "debit" | "credit", partRule: CategoryRule | null, kind: TaxKind) =>
+    taxedLines(
+      account,
+      amt,
+      side,
+      { code: resolveTaxCode(ev, account, partRule, defaults, accountTaxCodes), kind },
+      defaults.vatRate,
+      inclusive
+    );
+
+  // Base lines first (quantity on a single one), then the folded VAT lines.
+  const collect = (parts: { lines: JournalLine[]; settle: number }[]) => {
+    const all = parts.flatMap((p) => p.lines);
+    const bases = all.filter((l) => !l.vatLine);
+    return {
+      lines: [...(bases.length === 1 ? [withQty(bases[0])] : bases), ...mergeVatLines(all.filter((l) => l.vatLine))],
+      settle: round2(parts.reduce((acc, p) => acc + p.settle, 0)),
+    };
+  };
 
   switch (action) {
+    case "transfer": {
+      const from = pickAllowedAccountName(ev.cashAccount, chart) ?? context.cashAccount;
+      const to = pickAllowedAccountName(ev.transferToAccount, chart) ?? context.cashAccount;
+      if (from === to) return null;
+      lines.push(line(to, amount, 0));
+      lines.push(line(from, 0, amount));
+      break;
+    }
     case "borrow": {
-      lines.push(line("Cash", amount, 0));
+      lines.push(line(cash, amount, 0));
       lines.push(line("Loan Payable", 0, amount));
       break;
     }
     case "lend": {
       lines.push(line("Loan Receivable", amount, 0));
-      lines.push(line("Cash", 0, amount));
+      lines.push(line(cash, 0, amount));
       break;
     }
-    case "buy": {
-      const creditAccount = defaults.useARAP ? "Accounts Payable" : "Cash";
-
-      const allowedDebit =
-        pickAllowedAccountName(ev.expenseAccount, allowedAccountNameMap) ?? "Purchases / Expense";
-
-      lines.push(line(allowedDebit, vat.base, 0));
-      if (vat.vat > 0) lines.push(line("Input VAT", vat.vat, 0));
-      lines.push(line(creditAccount, 0, vat.total));
+    case "buy":
+    case "spend": {
+      const creditAccount = defaults.useARAP ? "Accounts Payable" : cash;
+      const parts = ev.splits?.length
+        ? ev.splits.map((p) => ({ amount: p.amount, ...partAccount(p, "Purchases / Expense") }))
+        : [{ amount, account: categoryAccount, rule }];
+      const debits = collect(parts.map((p) => taxed(p.account, p.amount, "debit", p.rule, "purchase")));
+      // withheld from the vendor's net amount, never its VAT; the vendor is paid (or owed) the rest
+      const withheld = ev.withholdingRate
+        ? round2(sumDebits(debits.lines.filter((l) => !l.vatLine)) * ev.withholdingRate)
+        : 0;
+      lines.push(...debits.lines);
+      lines.push(line(creditAccount, 0, round2(debits.settle - withheld)));
+      if (withheld) lines.push(line("WHT Payable", 0, withheld));
       break;
     }
     case "sell": {
-      const debitAccount = defaults.useARAP ? "Accounts Receivable" : "Cash";
-      lines.push(line(debitAccount, vat.total, 0));
-      lines.push(line("Revenue", 0, vat.base));
-      if (vat.vat > 0) lines.push(line("Output VAT", 0, vat.vat));
+      const debitAccount = defaults.useARAP ? "Accounts Receivable" : cash;
+      const parts = ev.splits?.length
+        ? ev.splits.map((p) => ({ amount: p.amount, account: pickAllowedAccountName(p.category, chart) ?? "Revenue" }))
+        : [{ amount, account: "Revenue" }];
+      const credits = collect(parts.map((p) => taxed(p.account, p.amount, "credit", null, "sale")));
+      lines.push(line(debitAccount, credits.settle, 0), ...credits.lines);
       break;
     }
-    case "spend": {
-      const creditAccount = defaults.useARAP ? "Accounts Payable" : "Cash";
-      const allowedDebit =
-        pickAllowedAccountName(ev.expenseAccount, allowedAccountNameMap) ?? "Purchases / Expense";
-
-      lines.push(line(allowedDebit, amount, 0));
-      lines.push(line(creditAccount, 0, amount));
+    // Returns mirror sell/buy: reverse the revenue or expense and its VAT.
+    case "sales_return": {
+      const creditAccount = defaults.useARAP ? "Accounts Receivable" : cash;
+      const debits = collect([taxed("Revenue", amount, "debit", null, "sale")]);
+      lines.push(...debits.lines);
+      lines.push(line(creditAccount, 0, debits.settle));
+      break;
+    }
+    case "purchase_return": {
+      const debitAccount = defaults.useARAP ? "Accounts Payable" : cash;
+      const credits = collect([taxed(categoryAccount, amount, "credit", rule, "purchase")]);
+      lines.push(line(debitAccount, credits.settle, 0), ...credits.lines);
+      break;
+    }
+    case "contribute": {
+      lines.push(line(cash, amount, 0));
+      lines.push(line("Share Capital", 0, amount));
+      break;
+    }
+    case "draw": {
+      lines.push(line("Owner Drawings", amount, 0));
+      lines.push(line(cash, 0, amount));
+      break;
+    }
+    case "declare_dividend": {
+      lines.push(line("Retained Earnings", amount, 0));
+      lines.push(line("Dividends Payable", 0, amount));
+      break;
+    }
+    case "pay_dividend": {
+      lines.push(line("Dividends Payable", amount, 0));
+      lines.push(line(cash, 0, amount));
+      break;
+    }
+    // Settlements always clear the open balance, regardless of useARAP.
+    case "collect": {
+      lines.push(line(cash, amount, 0));
+      lines.push(line("Accounts Receivable", 0, amount));
+      break;
+    }
+    case "settle": {
+      lines.push(line("Accounts Payable", amount, 0));
+      lines.push(line(cash, 0, amount));
+      break;
+    }
+    case "repay": {
+      lines.push(line("Loan Payable", amount, 0));
+      lines.push(line(cash, 0, amount));
+      break;
+    }
+    case "collect_loan": {
+      lines.push(line(cash, amount, 0));
+      lines.push(line("Loan Receivable", 0, amount));
       break;
     }
   }
@@ -296,95 +1068,518 @@ function generateEntryFromEvent(
     memo,
     currency,
     entityId: stamp.entityId,
-    businessUnitId: stamp.businessUnitId,
+    businessUnitId: rule?.businessUnitId || stamp.businessUnitId,
     lines,
+    source: {
+      text: ev.raw,
+      category: ev.expenseAccount,
+      counterparty: ev.counterparty,
+      account: usesExpenseAccount(action) && !ev.splits?.length ? categoryAccount : undefined,
+      ruleId: rule?.id,
+      withholdingRate: lines.some((l) => l.account === "WHT Payable") ? ev.withholdingRate : undefined,
+    },
   };
 }
 
-export function extractEventsWithContext(text: string): ParsedEvent[] {
+// A segment's event and where its fields were read from, relative to the segment.
+type SegmentRead = { event: ParsedEvent; spans: TokenSpan[] };
+
+function spansOf(fields: [TokenSpan["field"], TextMatch<unknown> | undefined][]): TokenSpan[] {
+  return fields.flatMap(([field, m]) => (m?.span ? [{ field, start: m.span[0], end: m.span[1] }] : []));
+}
+
+function eventFromSegment(
+  seg: string,
+  action: ActionKind,
+  amount: TextMatch<number> | undefined,
+  dateISO?: string,
+  currency?: Currency,
+  cashAccounts?: string[]
+): SegmentRead {
+  const text = stripTaxPhrases(stripWithholding(seg)); // same length, so offsets in it are offsets in seg
+  const counterparty = parseCounterparty(text, action);
+  const expenseAccount = usesExpenseAccount(action) ? parseExpenseAccount(text) : undefined;
+  const { cashAccount, transferToAccount } = parseCashAccounts(text, action, cashAccounts);
+  return {
+    event: {
+      dateISO,
+      currency,
+      action,
+      amount: amount?.value,
+      counterparty: counterparty?.value,
+      item: parseItem(text, action),
+      ...parseQuantity(seg),
+      expenseAccount: expenseAccount?.value,
+      taxCode: parseTaxCode(seg),
+      withholdingRate: action === "spend" || action === "buy" ? parseWithholdingRate(seg) : undefined,
+      cashAccount: cashAccount?.value,
+      transferToAccount: transferToAccount?.value,
+      raw: seg,
+    },
+    spans: spansOf([
+      ["amount", amount],
+      ["counterparty", counterparty],
+      ["category", expenseAccount],
+      ["cashAccount", cashAccount],
+      ["cashAccount", transferToAccount],
+    ]),
+  };
+}
+
+function partialEvent(
+  seg: string,
+  action: ActionKind,
+  dateISO?: string,
+  currency?: Currency,
+  cashAccounts?: string[]
+): SegmentRead {
+  const read = eventFromSegment(seg, action, undefined, dateISO, currency, cashAccounts);
+  if (!usesExpenseAccount(action) || read.event.expenseAccount) return read;
+  const category = parseBareCategory(seg);
+  return {
+    event: { ...read.event, expenseAccount: category?.value },
+    spans: [...read.spans, ...spansOf([["category", category]])],
+  };
+}
+
+// --------------------------
+// Token spans (composer highlighting)
+// --------------------------
+
+// A piece of the composer text and where it starts.
+type TextPiece = { text: string; start: number };
+
+// String.split that remembers offsets into the original text.
+function splitPiece(piece: TextPiece, separator: RegExp): TextPiece[] {
+  const out: TextPiece[] = [];
+  let last = 0;
+  for (const m of piece.text.matchAll(separator)) {
+    const idx = m.index ?? 0;
+    out.push({ text: piece.text.slice(last, idx), start: piece.start + last });
+    last = idx + m[0].length;
+  }
+  out.push({ text: piece.text.slice(last), start: piece.start + last });
+  return out;
+}
+
+function trimPiece(piece: TextPiece): TextPiece {
+  const lead = piece.text.length - piece.text.trimStart().length;
+  return { text: piece.text.trim(), start: piece.start + lead };
+}
+
+// Every verb parseAction reacts to; the first one in a segment is highlighted.
+const ACTION_WORD_RE =
+  /\b(?:declared?|approved|announced|paid back|pay|paid|distributed|settled?|drawings?|withdrew|withdrawal|took out|invest(?:ed)?|injected|contributed|contribution|injection|refund(?:ed)?|credit note|returned|return of|repa(?:y|id)|received|collected|got|transfer(?:red)?|moved|deposited|lend|lent|loaned|borrow(?:ed)?|buy|bought|purchased?|sell|sold|spend|spent)\b/i;
+
+const TOKEN_FIELDS: TokenSpan["field"][] = ["action", "amount", "currency", "date"];
+
+// Where the fields sit in the composer text: dates, the verb and the currency
+// found in the segment, plus the spans the parsers read values from (`read`,
+// relative to the segment). Values the parser rewrote beyond recognition
+// (number words, "3 x 250") come without a span and are not highlighted.
+function locateSpans(piece: TextPiece, ev: ParsedEvent | undefined, read: TokenSpan[]): TokenSpan[] {
+  const seg = piece.text;
+  const found: TokenSpan[] = [];
+  const add = (field: TokenSpan["field"], start: number, length: number) => {
+    if (start >= 0 && length > 0) found.push({ field, start: piece.start + start, end: piece.start + start + length });
+  };
+
+  for (const [start, end] of findDateSpans(seg)) add("date", start, end - start);
+
+  if (ev?.action) {
+    const en = seg.match(ACTION_WORD_RE);
+    const ar = en ? null : stripArabicMarks(seg).match(arabicWordRe(Object.values(AR).join("|")));
+    if (en) add("action", en.index ?? 0, en[0].length);
+    else if (ar) {
+      const lead = new RegExp(`^[${AR_LETTER}]`).test(ar[0]) ? 0 : 1;
+      const start = markedOffset(seg, (ar.index ?? 0) + lead);
+      add("action", start, markedOffset(seg, (ar.index ?? 0) + ar[0].length) - start);
+    }
+  }
+
+  const currency = seg.match(new RegExp(String.raw`\b${CURRENCY_WORD_RE}|[$€]|${AR_CURRENCY_RE}`, "i"));
+  if (currency) add("currency", currency.index ?? 0, currency[0].length);
+
+  for (const span of read) add(span.field, span.start, span.end - span.start);
+
+  // Token fields win; a name that starts on one ("50 pens") starts after it, a
+  // name that runs into one ("Acme for $2.5k") is cut short before it, then
+  // overlaps are dropped first come, first kept.
+  const tokens = found.filter((t) => TOKEN_FIELDS.includes(t.field));
+  const clipped = found.map((span) => {
+    if (TOKEN_FIELDS.includes(span.field)) return span;
+    const lead = tokens.find((t) => t.start === span.start && t.end < span.end);
+    const after = lead ? seg.slice(lead.end - piece.start) : "";
+    const from = lead ? lead.end + after.length - after.trimStart().length : span.start;
+    const stop = tokens.filter((t) => t.start > from && t.start < span.end).sort((a, b) => a.start - b.start)[0];
+    if (!stop) return { ...span, start: from };
+    const kept = seg.slice(from - piece.start, stop.start - piece.start).replace(/\s+(?:for|on|at|of|by)?\s*$/i, "");
+    return { ...span, start: from, end: from + kept.length };
+  });
+
+  const spans: TokenSpan[] = [];
+  for (const span of clipped.sort((a, b) => a.start - b.start || b.end - a.end)) {
+    if (span.end > span.start && (!spans.length || span.start >= spans[spans.length - 1].end)) spans.push(span);
+  }
+  return spans;
+}
+
+function extractParsedSegments(text: string, today: Date, cashAccounts: string[] = []): ParsedSegment[] {
   const raw = text.trim();
   if (!raw) return [];
 
-  const segments = raw
-    .split(/[\n.;]+/g)
-    .flatMap((s) => s.split(/\b(and then|then|also)\b/gi))
-    .map((s) => s.trim())
-    .filter(Boolean);
+  // offsets are kept against `text` so the composer can highlight in place
+  // keep decimals ("2.5k", "1.234,56"), "د.إ" and "excl. VAT" in one segment
+  const pieces = splitPiece({ text, start: 0 }, /[\n;؛]+|\.(?!\d|إ|\s*vat\b)/gi)
+    .flatMap((p) => splitPiece(p, /\b(?:and then|then|also)\b|(?:^|\s)(?:ثم|وبعدها|وبعد ذلك)(?=\s|$)/gi))
+    .map(trimPiece)
+    .filter((p) => p.text);
 
-  const events: ParsedEvent[] = [];
-  let ctxDateISO: string | undefined = parseAnyDate(raw);
+  const records: ParsedSegment[] = [];
+  const reads: TokenSpan[][] = []; // per record, relative to its piece
+  let ctxDateISO: string | undefined = parseAnyDate(raw, today);
   let ctxCurrency: Currency | undefined = parseCurrency(raw);
 
-  for (const seg of segments) {
-    const segDate = parseAnyDate(seg);
+  for (const { text: seg } of pieces) {
+    const segDate = parseAnyDate(seg, today);
     if (segDate) ctxDateISO = segDate;
 
     const segCur = parseCurrency(seg);
     if (segCur) ctxCurrency = segCur;
 
+    const split = parseSplit(seg);
+    if (split) {
+      // unbalanced breakdowns are dropped rather than guessed at
+      if (!split.balanced) {
+        const sum = round2(split.parts.reduce((acc, p) => acc + p.amount, 0));
+        records.push({
+          segment: seg,
+          reasons: ["split_unbalanced"],
+          message: `Split parts add up to ${sum}, not the total ${split.total}.`,
+        });
+        reads.push([]);
+        continue;
+      }
+      const { cashAccount, transferToAccount } = parseCashAccounts(seg, split.action, cashAccounts);
+      records.push({
+        segment: seg,
+        event: {
+          dateISO: segDate,
+          currency: segCur,
+          action: split.action,
+          amount: split.total,
+          splits: split.parts,
+          taxCode: parseTaxCode(seg),
+          withholdingRate: split.action === "sell" ? undefined : parseWithholdingRate(seg),
+          cashAccount: cashAccount?.value,
+          transferToAccount: transferToAccount?.value,
+          raw: seg,
+        },
+        reasons: [],
+      });
+      reads.push([...split.spans, ...spansOf([["cashAccount", cashAccount], ["cashAccount", transferToAccount]])]);
+      continue;
+    }
+
     const action = parseAction(seg);
     const amount = parseAmount(seg);
 
     if (action && amount) {
-      events.push({
-        dateISO: segDate,
-        currency: segCur,
-        action,
-        amount,
-        counterparty: parseCounterparty(seg, action),
-        item: parseItem(seg, action),
-        expenseAccount: action === "spend" || action === "buy" ? parseExpenseAccount(seg) : undefined,
-        raw: seg,
-      });
+      const { event, spans } = eventFromSegment(seg, action, amount, segDate, segCur, cashAccounts);
+      records.push({ segment: seg, event, reasons: [] });
+      reads.push(spans);
+      continue;
     }
+
+    const reasons: ParseDiagnosticReason[] = [];
+    if (!action) reasons.push("missing_action");
+    if (!amount) reasons.push("missing_amount");
+    // keep what we did understand so a clarification can supply the amount
+    const partial = action ? partialEvent(seg, action, segDate, segCur, cashAccounts) : undefined;
+    records.push({
+      segment: seg,
+      partial: partial?.event,
+      reasons,
+      message: !action
+        ? 'No action found. Start with a verb like "paid", "sold", "bought", "received" or "transferred".'
+        : "No amount found. Add a number such as 500 or 2.5k.",
+    });
+    reads.push(partial?.spans ?? []);
   }
 
-  if (events.length === 0) {
+  // Whole-text fallback: action and amount ended up in different segments.
+  if (!records.some((r) => r.event) && !parseSplit(raw)) {
     const action = parseAction(raw);
     const amount = parseAmount(raw);
     if (action && amount) {
-      events.push({
-        dateISO: ctxDateISO,
-        currency: ctxCurrency,
-        action,
-        amount,
-        counterparty: parseCounterparty(raw, action),
-        item: parseItem(raw, action),
-        expenseAccount: action === "spend" || action === "buy" ? parseExpenseAccount(raw) : undefined,
-        raw,
-      });
+      const { event, spans } = eventFromSegment(raw, action, amount, ctxDateISO, ctxCurrency, cashAccounts);
+      return [{ segment: raw, event, reasons: [], spans: locateSpans(trimPiece({ text, start: 0 }), event, spans) }];
     }
   }
 
-  return events;
+  // one record per piece
+  return records.map((r, i) => ({ ...r, spans: locateSpans(pieces[i], r.event ?? r.partial, reads[i]) }));
+}
+
+export function extractEventsWithContext(text: string, opts?: { today?: Date }): ParsedEvent[] {
+  const records = extractParsedSegments(text, opts?.today ?? new Date());
+  return records.flatMap((r) => (r.event ? [r.event] : []));
+}
+
+// Built-in, offline parser; the default backend for generateEntriesFromText.
+export const regexParser: TransactionParser = {
+  id: "regex",
+  label: "Built-in rules",
+  parse: (text: string, ctx: ParserContext) =>
+    extractParsedSegments(text, ctx.today, chartCashAccounts(ctx.allowedAccounts)),
+};
+
+// Which fields came from the text, which from context, and where we fell back.
+function diagnoseEvent(
+  rec: ParsedSegment & { event: ParsedEvent },
+  entry: JournalEntry | null,
+  context: { cashAccount: string },
+  chart: AccountChart | null,
+  rules?: CategoryRule[]
+): ParseDiagnostic {
+  const ev = rec.event;
+  const action = ev.action as ActionKind;
+  const explicit: ParsedField[] = ["action", "amount"];
+  const inferred: ParsedField[] = [];
+  const reasons: ParseDiagnosticReason[] = [];
+  const messages: string[] = [];
+  let fallbackAccount: string | undefined;
+  let suggestions: AccountCandidate[] | undefined;
+  let confidence = 1;
+
+  (ev.dateISO ? explicit : inferred).push("date");
+  (ev.currency ? explicit : inferred).push("currency");
+  if (ev.counterparty) explicit.push("counterparty");
+  if (!ev.dateISO) confidence -= 0.1;
+  if (!ev.currency) confidence -= 0.1;
+
+  if (ev.splits?.length) {
+    const fallback = action === "sell" ? "Revenue" : "Purchases / Expense";
+    const unmatched = ev.splits.filter((p) =>
+      action === "sell"
+        ? !pickAllowedAccountName(p.category, chart)
+        : !resolveCategory(p.category, { text: p.category ?? "", counterparty: ev.counterparty, amount: p.amount }, chart, rules)
+            .account
+    );
+    if (unmatched.length) {
+      inferred.push("category");
+      reasons.push("fallback_category");
+      fallbackAccount = fallback;
+      messages.push(
+        `${unmatched.map((p) => `"${p.category ?? "?"}"`).join(", ")} not in the chart; posted to ${fallback}.`
+      );
+      confidence -= 0.3;
+    } else {
+      explicit.push("category");
+    }
+  } else if (usesExpenseAccount(action)) {
+    const resolved = resolveCategory(
+      ev.expenseAccount,
+      { text: ev.raw, counterparty: ev.counterparty, amount: ev.amount },
+      chart,
+      rules
+    );
+    if (resolved.match) {
+      explicit.push("category");
+      if (resolved.match.via !== "exact") {
+        messages.push(
+          `"${ev.expenseAccount}" matched ${resolved.match.account} (${resolved.match.via}, ${Math.round(resolved.match.score * 100)}%).`
+        );
+        confidence -= 1 - resolved.match.score;
+      }
+    } else if (resolved.rule) {
+      inferred.push("category");
+      messages.push(
+        `Rule "${resolved.rule.match === "amount" ? "amount range" : resolved.rule.pattern}" posted to ${resolved.account}.`
+      );
+    } else {
+      inferred.push("category");
+      reasons.push("fallback_category");
+      fallbackAccount = "Purchases / Expense";
+      suggestions = chart ? rankAccountCandidates(ev.expenseAccount, chart) : undefined;
+      messages.push(
+        ev.expenseAccount
+          ? `"${ev.expenseAccount}" is not in the chart; posted to Purchases / Expense.`
+          : 'No category found (try "on rent" / "for office supplies"); posted to Purchases / Expense.'
+      );
+      confidence -= 0.3;
+    }
+  }
+
+  if (ev.cashAccount && !pickAllowedAccountName(ev.cashAccount, chart)) {
+    inferred.push("cashAccount");
+    reasons.push("unknown_cash_account");
+    fallbackAccount ??= context.cashAccount;
+    messages.push(`"${ev.cashAccount}" is not in the chart; used ${context.cashAccount}.`);
+    confidence -= 0.2;
+  } else if (ev.cashAccount) {
+    explicit.push("cashAccount");
+  } else {
+    inferred.push("cashAccount");
+  }
+
+  if (!entry) {
+    return {
+      segment: rec.segment,
+      status: "skipped",
+      reasons: [...reasons, "no_entry"],
+      message: "Could not build a balanced entry from this line.",
+      explicit,
+      inferred,
+      fallbackAccount,
+      confidence: 0,
+    };
+  }
+
+  return {
+    segment: rec.segment,
+    status: reasons.length ? "warning" : "ok",
+    reasons,
+    message: messages.length ? messages.join(" ") : undefined,
+    explicit,
+    inferred,
+    fallbackAccount,
+    suggestions: suggestions?.length ? suggestions : undefined,
+    entryId: entry.id,
+    confidence: round2(Math.max(0, Math.min(1, confidence))),
+  };
+}
+
+// --------------------------
+// Clarifications
+// --------------------------
+
+const ACTION_NOUN: Record<ActionKind, string> = {
+  borrow: "loan",
+  lend: "loan",
+  buy: "purchase",
+  sell: "sale",
+  spend: "payment",
+  sales_return: "return",
+  purchase_return: "return",
+  contribute: "contribution",
+  draw: "drawing",
+  declare_dividend: "dividend",
+  pay_dividend: "dividend payment",
+  transfer: "transfer",
+  collect: "receipt",
+  settle: "payment",
+  repay: "repayment",
+  collect_loan: "repayment",
+};
+
+function questionId(field: ClarificationField, segment: string) {
+  return `${field}:${segment.trim().toLowerCase()}`;
+}
+
+// "paid the rent" -> "How much was the rent?"; "sold to Acme" -> "How much was the sale (Acme)?"
+function amountQuestion(ev: ParsedEvent, segment: string): ClarificationQuestion {
+  const subject = ev.expenseAccount ?? ev.item;
+  const noun = ev.action ? ACTION_NOUN[ev.action] : "transaction";
+  return {
+    id: questionId("amount", segment),
+    segment,
+    field: "amount",
+    question: subject
+      ? `How much was the ${subject}?`
+      : `How much was the ${noun}${ev.counterparty ? ` (${ev.counterparty})` : ""}?`,
+  };
+}
+
+function categoryQuestion(ev: ParsedEvent, segment: string, suggestions?: AccountCandidate[]): ClarificationQuestion {
+  return {
+    id: questionId("category", segment),
+    segment,
+    field: "category",
+    question: /[a-z\u0600-\u06ff]/i.test(ev.expenseAccount ?? "")
+      ? `Which account for "${ev.expenseAccount}"?`
+      : `Which account should "${segment}" post to?`,
+    suggestions,
+  };
+}
+
+// Answers are merged into the event before generateEntryFromEvent runs.
+function applyAnswers(ev: ParsedEvent, segment: string, answers?: ClarificationAnswers): ParsedEvent {
+  const amountAnswer = answers?.[questionId("amount", segment)];
+  const categoryAnswer = answers?.[questionId("category", segment)]?.trim();
+  let next = ev;
+
+  if (amountAnswer && !next.amount) {
+    const amount = parseAmount(amountAnswer)?.value;
+    if (amount) next = { ...next, amount, currency: next.currency ?? parseCurrency(amountAnswer) };
+  }
+  if (categoryAnswer && !next.splits?.length) next = { ...next, expenseAccount: categoryAnswer };
+
+  return next;
 }
 
 /**
  * If allowedAccounts is provided, buy/spend will ONLY post to category accounts
  * that exist in allowedAccounts; otherwise it falls back to "Purchases / Expense".
+ * Names are matched by exact name, opts.accountSynonyms, or a confident fuzzy
+ * match ("office supply" -> "Office Supplies"); weaker matches become diagnostic
+ * suggestions instead of postings.
  *
  * NEW:
  * - opts.entityId / opts.businessUnitId: stamps entries for multi-entity ledger
+ * - opts.cashAccount: default cash/bank account (entity setting) instead of "Cash"
+ * - opts.today: anchor for relative dates ("yesterday", "last Friday"); defaults to now
+ * - opts.rules: entity categorisation rules, tried before the "Purchases / Expense" fallback
+ * - opts.accountTaxCodes: per-account default tax codes; a code stated in the text
+ *   or on the matching rule wins, the composer VAT setting is the last resort
+ * - opts.parser: backend that turns text into events (default: regexParser); async
+ *   backends such as the OpenAI-compatible adapter are awaited
+ * - diagnostics: one per segment, explaining skips, fallbacks and confidence
+ * - opts.answers / questions: segments missing an amount, or whose category fell
+ *   back, come back as questions; answers (keyed by question id) are merged into
+ *   the event on the next run
+ * - spans: where each parsed field sits in `text` (backends that report offsets)
  */
-export function generateEntriesFromText(
+export async function generateEntriesFromText(
   text: string,
   defaults: Pick<ComposerState, "currency" | "vatEnabled" | "vatRate" | "vatInclusive" | "useARAP">,
   opts?: {
     allowedAccounts?: string[];
+    accountSynonyms?: Record<string, string[]>; // chart name -> alternative names
+    cashAccount?: string;
     entityId?: string;
     businessUnitId?: string;
+    today?: Date;
+    rules?: CategoryRule[];
+    accountTaxCodes?: Record<string, TaxCode>; // chart name -> default tax code
+    parser?: TransactionParser;
+    answers?: ClarificationAnswers;
+    contacts?: Contact[]; // counterparty directory; a resolved name sets the entry's contactId
   }
-): { events: ParsedEvent[]; entries: JournalEntry[] } {
-  const events = extractEventsWithContext(text);
-
-  const firstDate = parseAnyDate(text) ?? todayISO();
+): Promise<{
+  events: ParsedEvent[];
+  entries: JournalEntry[];
+  diagnostics: ParseDiagnostic[];
+  questions: ClarificationQuestion[];
+  spans: TokenSpan[];
+}> {
+  const today = opts?.today ?? new Date();
+  const parser = opts?.parser ?? regexParser;
+  const records = await parser.parse(text, {
+    today,
+    currency: defaults.currency,
+    allowedAccounts: opts?.allowedAccounts,
+    accountSynonyms: opts?.accountSynonyms,
+  });
+
+  const firstDate = parseAnyDate(text, today) ?? todayISO(today);
   const firstCurrency = parseCurrency(text) ?? defaults.currency;
 
-  const ctx = { dateISO: firstDate, currency: firstCurrency };
+  const ctx = { dateISO: firstDate, currency: firstCurrency, cashAccount: opts?.cashAccount || "Cash" };
 
-  const allowedAccountNameMap: Map<string, string> | null =
+  const chart: AccountChart | null =
     opts?.allowedAccounts && opts.allowedAccounts.length
-      ? new Map(opts.allowedAccounts.map((n) => [normalizeAccountKey(n), n] as const))
+      ? buildAccountChart(opts.allowedAccounts, opts.accountSynonyms)
       : null;
 
   const stamp = {
@@ -392,18 +1587,58 @@ export function generateEntriesFromText(
     businessUnitId: opts?.businessUnitId,
   };
 
+  const events: ParsedEvent[] = [];
   const entries: JournalEntry[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const questions: ClarificationQuestion[] = [];
   const running = { ...ctx };
 
-  for (const ev of events) {
-    if (ev.dateISO) running.dateISO = ev.dateISO;
-    if (ev.currency) running.currency = ev.currency;
+  for (const rec of records) {
+    const parsed = rec.event ?? rec.partial;
+    const ev = parsed && applyAnswers(parsed, rec.segment, opts?.answers);
+    if (!ev?.amount) {
+      if (ev) questions.push(amountQuestion(ev, rec.segment));
+      diagnostics.push({
+        segment: rec.segment,
+        status: "skipped",
+        reasons: rec.reasons,
+        message: rec.message,
+        explicit: [],
+        inferred: [],
+        confidence: 0,
+      });
+      continue;
+    }
 
-    const entry = generateEntryFromEvent(ev, defaults, running, allowedAccountNameMap, stamp);
+    events.push(ev);
+    // context carries what the text said; an answered "2k usd" stays on its own line
+    if (parsed?.dateISO) running.dateISO = parsed.dateISO;
+    if (parsed?.currency) running.currency = parsed.currency;
+
+    const contact = opts?.contacts ? resolveContact(ev.counterparty, opts.contacts) : null;
+    // the vendor's standing withholding rate unless the text states one
+    const withholdingRate =
+      ev.withholdingRate ?? (ev.action === "spend" || ev.action === "buy" ? contact?.withholdingRate : undefined);
+    const entry = generateEntryFromEvent(
+      withholdingRate ? { ...ev, withholdingRate } : ev,
+      defaults,
+      running,
+      chart,
+      stamp,
+      opts?.rules,
+      opts?.accountTaxCodes
+    );
+    if (entry && contact) entry.contactId = contact.id;
     if (entry) entries.push(entry);
+    const diagnostic = diagnoseEvent({ ...rec, event: ev }, entry, running, chart, opts?.rules);
+    diagnostics.push(diagnostic);
+
+    if (entry && diagnostic.reasons.includes("fallback_category") && !ev.splits?.length) {
+      questions.push(categoryQuestion(ev, rec.segment, diagnostic.suggestions));
+    }
   }
 
-  return { events, entries };
+  return { events, entries, diagnostics, questions, spans: records.flatMap((r) => r.spans ?? []) };
 }
 
 // --------------------------
@@ -0,0 +1,137 @@
+// Rewrites the many ways people type numbers into plain ASCII decimals so the
+// amount parser only has to deal with "1234.56":
+//   "٢٥٠٠"                     -> "2500"     (Arabic-Indic / Persian digits)
+//   "1.234,56"                 -> "1234.56"  (European grouping)
+//   "2.5k", "1.2m", "3bn"      -> "2500", "1200000", "3000000000"
+//   "two thousand five hundred" -> "2500"
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const SCALES: Record<string, number> = {
+  thousand: 1e3,
+  million: 1e6,
+  billion: 1e9,
+};
+
+const SUFFIXES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mn: 1e6,
+  mio: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+const CURRENCY_WORDS = /^(aed|dhs?|dirhams?|usd|dollars?|eur|euros?)\b/;
+
+function isNumberWord(w: string) {
+  return w in UNITS || w === "hundred" || w in SCALES;
+}
+
+export function toAsciiDigits(text: string) {
+  return text
+    .replace(/[٠-٩]/g, (c) => String(c.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, (c) => String(c.charCodeAt(0) - 0x06f0))
+    .replace(/(\d)٫(\d)/g, "$1.$2") // Arabic decimal separator
+    .replace(/(\d)٬(\d)/g, "$1,$2"); // Arabic thousands separator
+}
+
+function fromEuropeanGrouping(text: string) {
+  return (
+    text
+      // 1.234,56 / 1.234.567,8
+      .replace(/\b(\d{1,3}(?:\.\d{3})+),(\d{1,2})\b/g, (_, int: string, dec: string) => `${int.replace(/\./g, "")}.${dec}`)
+      // 1.234.567 (two or more dot groups can only be thousands)
+      .replace(/\b\d{1,3}(?:\.\d{3}){2,}\b/g, (m) => m.replace(/\./g, ""))
+      // 1234,56 (comma decimal without grouping)
+      .replace(/\b(\d{4,}|\d{1,3}),(\d{1,2})\b(?![,.]?\d)/g, "$1.$2")
+  );
+}
+
+function expandSuffixes(text: string) {
+  const expand = (_: string, num: string, suffix: string) => {
+    const n = Number(num.replace(/,/g, "")) * SUFFIXES[suffix.toLowerCase()];
+    return Number.isFinite(n) ? String(Math.round(n * 100) / 100) : num;
+  };
+  return (
+    text
+      // single letters only when attached: "2.5k", "1.2m", "3b"
+      .replace(/\b(\d+(?:,\d{3})*(?:\.\d+)?)(k|mn|mio|m|bn|b)\b/gi, expand)
+      .replace(/\b(\d+(?:,\d{3})*(?:\.\d+)?)\s+(k|mn|mio|bn|thousand|million|billion)\b/gi, expand)
+  );
+}
+
+function wordsToNumber(words: string[]): number {
+  let total = 0;
+  let current = 0;
+  for (const w of words) {
+    if (w in UNITS) current += UNITS[w];
+    else if (w === "hundred") current = (current || 1) * 100;
+    else if (w in SCALES) {
+      total += (current || 1) * SCALES[w];
+      current = 0;
+    }
+  }
+  return total + current;
+}
+
+// "two thousand five hundred and fifty" -> "2550"; "a hundred" -> "100"
+function replaceNumberWords(text: string) {
+  const tokens = text.split(/(\s+|-)/);
+  const out: string[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    const w = tokens[i].toLowerCase();
+    const next = tokens[i + 2]?.toLowerCase();
+    const startsRun = isNumberWord(w) || (w === "a" && (next === "hundred" || (next !== undefined && next in SCALES)));
+
+    if (!startsRun) {
+      out.push(tokens[i]);
+      i++;
+      continue;
+    }
+
+    const words: string[] = [];
+    let j = i;
+    let end = i;
+    while (j < tokens.length) {
+      const cur = tokens[j].toLowerCase();
+      if (isNumberWord(cur) || (j === i && cur === "a")) {
+        words.push(cur);
+        end = j;
+      } else if (cur === "and" && isNumberWord(tokens[j + 2]?.toLowerCase() ?? "")) {
+        // "five hundred and fifty"
+      } else if (!/^(\s+|-)$/.test(tokens[j])) {
+        break;
+      }
+      j++;
+    }
+
+    // Leave small counts alone ("one laptop", "two chairs") unless they are
+    // clearly money ("five dirhams"); otherwise they would win as the amount.
+    const value = wordsToNumber(words);
+    const after = tokens[end + 2]?.toLowerCase() ?? "";
+    if (value >= 10 || CURRENCY_WORDS.test(after)) out.push(String(value));
+    else out.push(tokens.slice(i, end + 1).join(""));
+    i = end + 1;
+  }
+
+  return out.join("");
+}
+
+export function normalizeNumbers(text: string): string {
+  let t = toAsciiDigits(text);
+  t = fromEuropeanGrouping(t);
+  t = expandSuffixes(t);
+  t = replaceNumberWords(t);
+  return t;
+}
@@ -0,0 +1,244 @@
+import type {
+  ActionKind,
+  Currency,
+  ParsedEvent,
+  ParsedSegment,
+  ParserContext,
+  SplitPart,
+  TaxCode,
+  TransactionParser,
+} from "./types";
+import { toISODate } from "./dateParser";
+import { buildAccountChart, matchAccount, type AccountChart } from "./accountMatcher";
+
+// Parser backend for any OpenAI-compatible /chat/completions endpoint (hosted,
+// or a local model server). The model only proposes events: every field is
+// validated here and account names are snapped to the chart before
+// generateEntriesFromText sees them, which still applies the strict mapping.
+
+const ACTIONS: ActionKind[] = [
+  "borrow",
+  "lend",
+  "buy",
+  "sell",
+  "spend",
+  "sales_return",
+  "purchase_return",
+  "contribute",
+  "draw",
+  "declare_dividend",
+  "pay_dividend",
+  "transfer",
+  "collect",
+  "settle",
+  "repay",
+  "collect_loan",
+];
+
+const CURRENCIES: Currency[] = ["AED", "USD", "EUR"];
+
+const TAX_CODES: TaxCode[] = ["standard", "zero_rated", "exempt", "out_of_scope", "reverse_charge"];
+
+export type OpenAIParserOptions = {
+  baseUrl: string; // e.g. "http://localhost:8080/v1"
+  model: string;
+  apiKey?: string;
+  fetchImpl?: typeof fetch; // injectable for stub servers
+};
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function optString(v: unknown): string | undefined {
+  return typeof v === "string" && v.trim() ? v.trim() : undefined;
+}
+
+function optPositive(v: unknown): number | undefined {
+  return typeof v === "number" && Number.isFinite(v) && v > 0 ? round2(v) : undefined;
+}
+
+function systemPrompt(ctx: ParserContext) {
+  return [
+    "You turn short bookkeeping notes into JSON. Reply with one JSON object and nothing else:",
+    '{"events":[{"segment":string,"action":string,"amount":number,"currency"?:string,"dateISO"?:"YYYY-MM-DD",',
+    '"counterparty"?:string,"item"?:string,"quantity"?:number,"unitPrice"?:number,"unit"?:string,',
+    '"expenseAccount"?:string,"taxCode"?:string,"withholdingPct"?:number,"cashAccount"?:string,"transferToAccount"?:string,',
+    '"splits"?:[{"amount":number,"category"?:string}]}]}',
+    `action is one of: ${ACTIONS.join(", ")}.`,
+    `currency is one of: ${CURRENCIES.join(", ")}; omit it if the note does not say.`,
+    `taxCode is one of: ${TAX_CODES.join(", ")}; only set it when the note states the VAT treatment.`,
+    'withholdingPct is the withholding tax percentage held back from a vendor ("less 5% WHT" is 5); spend and buy only.',
+    `Today is ${toISODate(ctx.today)}; resolve relative dates against it and omit dateISO if none is given.`,
+    ctx.allowedAccounts?.length
+      ? `Account fields must be copied exactly from this chart: ${ctx.allowedAccounts.join(" | ")}.`
+      : "Leave account fields out.",
+    "segment is the part of the note the event came from. Never invent amounts; leave amount out if the note has none.",
+  ].join("\n");
+}
+
+// "```json {...} ```" and chatty prefixes are common with small local models.
+function extractJSON(content: string): unknown {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start < 0 || end <= start) throw new Error("response contained no JSON object");
+  return JSON.parse(content.slice(start, end + 1));
+}
+
+// Snap to the chart name when confident; otherwise keep the model's text so the
+// engine's strict mapping falls back and reports it.
+function snapAccount(name: string | undefined, chart: AccountChart | null) {
+  if (!name || !chart) return name;
+  return matchAccount(name, chart)?.account ?? name;
+}
+
+function validateModelEvent(raw: unknown, fallbackSegment: string, chart: AccountChart | null): ParsedSegment {
+  const segment = (isRecord(raw) && optString(raw.segment)) || fallbackSegment;
+  const invalid = (message: string): ParsedSegment => ({ segment, reasons: ["invalid_event"], message });
+
+  if (!isRecord(raw)) return invalid("Model returned an event that is not an object.");
+
+  const action = raw.action;
+  if (typeof action !== "string" || !ACTIONS.includes(action as ActionKind)) {
+    return invalid(`Model returned an unknown action "${String(action)}".`);
+  }
+
+  const amount = optPositive(raw.amount);
+  if (!amount) {
+    // the composer asks for the amount instead of dropping the line
+    return {
+      segment,
+      reasons: ["missing_amount"],
+      message: "No amount found. Add a number such as 500 or 2.5k.",
+      partial: {
+        action: action as ActionKind,
+        counterparty: optString(raw.counterparty),
+        item: optString(raw.item),
+        expenseAccount: snapAccount(optString(raw.expenseAccount), chart),
+        raw: segment,
+      },
+    };
+  }
+
+  const currency = raw.currency === undefined || raw.currency === null ? undefined : raw.currency;
+  if (currency !== undefined && !CURRENCIES.includes(currency as Currency)) {
+    return invalid(`Model returned an unsupported currency "${String(currency)}".`);
+  }
+
+  const dateISO = optString(raw.dateISO);
+  if (dateISO && (!/^\d{4}-\d{2}-\d{2}$/.test(dateISO) || Number.isNaN(Date.parse(dateISO)))) {
+    return invalid(`Model returned an invalid date "${dateISO}".`);
+  }
+
+  // an unknown tax code is dropped rather than failing the event; the chart / composer default applies
+  const taxCode = TAX_CODES.includes(raw.taxCode as TaxCode) ? (raw.taxCode as TaxCode) : undefined;
+
+  const withholdingPct = action === "spend" || action === "buy" ? optPositive(raw.withholdingPct) : undefined;
+
+  let splits: SplitPart[] | undefined;
+  if (Array.isArray(raw.splits) && raw.splits.length) {
+    if (action !== "spend" && action !== "buy" && action !== "sell") {
+      return invalid(`Splits are only supported for spend, buy and sell, not ${action}.`);
+    }
+    splits = [];
+    for (const p of raw.splits) {
+      const partAmount = isRecord(p) ? optPositive(p.amount) : undefined;
+      if (!isRecord(p) || !partAmount) return invalid("Model returned a split part without a positive amount.");
+      splits.push({ amount: partAmount, category: snapAccount(optString(p.category), chart) });
+    }
+    const sum = round2(splits.reduce((acc, p) => acc + p.amount, 0));
+    if (Math.abs(sum - amount) > 0.01) {
+      return { segment, reasons: ["split_unbalanced"], message: `Split parts add up to ${sum}, not the total ${amount}.` };
+    }
+  }
+
+  const quantity = optPositive(raw.quantity);
+  const unitPrice = optPositive(raw.unitPrice);
+
+  const event: ParsedEvent = {
+    dateISO,
+    currency: currency as Currency | undefined,
+    action: action as ActionKind,
+    amount,
+    counterparty: optString(raw.counterparty),
+    item: optString(raw.item),
+    // only keep a breakdown that explains the amount
+    ...(quantity && unitPrice && Math.abs(round2(quantity * unitPrice) - amount) <= 0.01
+      ? { quantity, unitPrice, unit: optString(raw.unit) }
+      : {}),
+    expenseAccount: snapAccount(optString(raw.expenseAccount), chart),
+    taxCode,
+    withholdingRate: withholdingPct && withholdingPct < 100 ? withholdingPct / 100 : undefined,
+    splits,
+    cashAccount: snapAccount(optString(raw.cashAccount), chart),
+    transferToAccount: snapAccount(optString(raw.transferToAccount), chart),
+    raw: segment,
+  };
+
+  return { segment, event, reasons: [] };
+}
+
+export function createOpenAIParser(options: OpenAIParserOptions): TransactionParser {
+  const doFetch = options.fetchImpl ?? fetch;
+  const url = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    id: "openai",
+    label: `Model: ${options.model}`,
+    parse: async (text: string, ctx: ParserContext): Promise<ParsedSegment[]> => {
+      const raw = text.trim();
+      if (!raw) return [];
+
+      const chart = ctx.allowedAccounts?.length ? buildAccountChart(ctx.allowedAccounts, ctx.accountSynonyms) : null;
+
+      let payload: unknown;
+      try {
+        const res = await doFetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: options.model,
+            temperature: 0, // same note, same events
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: systemPrompt(ctx) },
+              { role: "user", content: raw },
+            ],
+          }),
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+        const body: unknown = await res.json();
+        const choices = isRecord(body) && Array.isArray(body.choices) ? body.choices : [];
+        const message = isRecord(choices[0]) && isRecord(choices[0].message) ? choices[0].message : null;
+        if (!message || typeof message.content !== "string") throw new Error("response had no message content");
+        payload = extractJSON(message.content);
+      } catch (err) {
+        return [
+          {
+            segment: raw,
+            reasons: ["parser_unavailable"],
+            message: `Model endpoint failed (${err instanceof Error ? err.message : String(err)}). Nothing was parsed.`,
+          },
+        ];
+      }
+
+      const events = isRecord(payload) && Array.isArray(payload.events) ? payload.events : null;
+      if (!events) {
+        return [{ segment: raw, reasons: ["invalid_event"], message: 'Model reply had no "events" array.' }];
+      }
+      if (!events.length) {
+        return [{ segment: raw, reasons: ["missing_action"], message: "Model found no transactions in this text." }];
+      }
+
+      return events.map((ev) => validateModelEvent(ev, raw, chart));
+    },
+  };
+}
@@ -0,0 +1,207 @@
+import type { Contact, Entity, JournalEntry, PeriodStatus } from "./types";
+import { isBalancedEntry } from "./journalEngine";
+import { isActiveEntry } from "./corrections";
+import { SUBLEDGER_ACCOUNTS } from "./contacts";
+import { buildVatReturn, vatSettlementMemo } from "./vatReturnEngine";
+import { buildWithholdingReport } from "./withholdingEngine";
+
+export const PERIOD_STATUS_LABELS: Record<PeriodStatus, string> = {
+  open: "Open",
+  soft_closed: "Soft-closed",
+  hard_closed: "Hard-closed",
+};
+
+// Months looked ahead for an open one before giving up on a redirect.
+const MAX_REDIRECT_MONTHS = 120;
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+function addMonths(yyyyMM: string, delta: number) {
+  const [y, m] = yyyyMM.split("-").map(Number);
+  const d = new Date(y, m - 1 + delta, 1);
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}`;
+}
+
+function monthEndISO(yyyyMM: string) {
+  const [y, m] = yyyyMM.split("-").map(Number);
+  return `${yyyyMM}-${pad2(new Date(y, m, 0).getDate())}`;
+}
+
+/** Status of the period a date falls in: the lock date first, then the month's own status. */
+export function periodStatusOf(entity: Entity | undefined, dateISO: string): PeriodStatus {
+  if (entity?.lockDateISO && dateISO <= entity.lockDateISO) return "hard_closed";
+  return entity?.periods?.find((p) => p.periodYYYYMM === dateISO.slice(0, 7))?.status ?? "open";
+}
+
+/** First day of the first open month after a closed date (the date itself when it is open). */
+export function openDateFor(entity: Entity | undefined, dateISO: string): string | null {
+  if (periodStatusOf(entity, dateISO) === "open") return dateISO;
+  for (let i = 1; i <= MAX_REDIRECT_MONTHS; i++) {
+    const first = `${addMonths(dateISO.slice(0, 7), i)}-01`;
+    if (periodStatusOf(entity, first) === "open") return first;
+  }
+  return null;
+}
+
+export type LockedEntry = {
+  entry: JournalEntry; // as it would be saved; as it was for a removal
+  change: "added" | "changed" | "removed";
+  status: Exclude<PeriodStatus, "open">;
+  redirectISO: string | null; // where an added entry would be moved; null otherwise or when no open period was found
+};
+
+// Bookkeeping a correction or void writes on the original; the entry's content stays as posted.
+const LINK_FIELDS = ["status", "postedAt", "reversedBy", "replacedBy", "lockOverride"] as const;
+
+function content(e: JournalEntry) {
+  const rest: Partial<JournalEntry> = { ...e };
+  for (const f of LINK_FIELDS) delete rest[f];
+  return JSON.stringify(rest);
+}
+
+const STRICTNESS: Record<PeriodStatus, number> = { open: 0, soft_closed: 1, hard_closed: 2 };
+
+function stricter(a: PeriodStatus, b: PeriodStatus): PeriodStatus {
+  return STRICTNESS[a] >= STRICTNESS[b] ? a : b;
+}
+
+/**
+ * Ledger changes that touch a closed period: entries added, changed or
+ * removed there, matched by id. A changed entry counts for its old date and
+ * its new one. Only added entries can be moved to the next open period.
+ */
+export function lockedChanges(entities: Entity[], before: JournalEntry[], after: JournalEntry[]): LockedEntry[] {
+  const byId = new Map(entities.map((e) => [e.id, e]));
+  const beforeById = new Map(before.map((e) => [e.id, e]));
+  const afterIds = new Set(after.map((e) => e.id));
+  const out: LockedEntry[] = [];
+
+  for (const entry of after) {
+    const prev = beforeById.get(entry.id);
+    const entity = byId.get(entry.entityId);
+    if (!prev) {
+      const status = periodStatusOf(entity, entry.dateISO);
+      if (status === "open") continue;
+      out.push({ entry, change: "added", status, redirectISO: openDateFor(entity, entry.dateISO) });
+    } else if (prev !== entry && content(prev) !== content(entry)) {
+      const status = stricter(
+        periodStatusOf(byId.get(prev.entityId), prev.dateISO),
+        periodStatusOf(entity, entry.dateISO)
+      );
+      if (status !== "open") out.push({ entry, change: "changed", status, redirectISO: null });
+    }
+  }
+  for (const entry of before) {
+    if (afterIds.has(entry.id)) continue;
+    const status = periodStatusOf(byId.get(entry.entityId), entry.dateISO);
+    if (status !== "open") out.push({ entry, change: "removed", status, redirectISO: null });
+  }
+  return out;
+}
+
+/** Moves entries into the next open period, keeping the date they were meant for. */
+export function redirectEntries(entries: JournalEntry[], locked: LockedEntry[]): JournalEntry[] {
+  const to = new Map(locked.flatMap((l) => (l.redirectISO ? [[l.entry.id, l.redirectISO] as const] : [])));
+  return entries.map((e) => {
+    const dateISO = to.get(e.id);
+    return dateISO ? { ...e, dateISO, redirectedFrom: e.redirectedFrom ?? e.dateISO } : e;
+  });
+}
+
+/** Lets soft-closed changes through with the reason recorded on the entries still in the ledger. */
+export function overrideEntries(entries: JournalEntry[], locked: LockedEntry[], reason: string): JournalEntry[] {
+  const status = new Map(locked.map((l) => [l.entry.id, l.status]));
+  return entries.map((e) => {
+    const s = status.get(e.id);
+    return s ? { ...e, lockOverride: { reason, status: s } } : e;
+  });
+}
+
+export type ChecklistItem = {
+  id: string;
+  label: string;
+  auto: boolean; // checked from the ledger; manual items are ticked off by hand
+  ok: boolean;
+  detail?: string;
+};
+
+// Ticked off by hand on the close screen.
+const MANUAL_ITEMS = [
+  { id: "bank", label: "Bank and cash accounts reconciled to statements" },
+  { id: "accruals", label: "Accruals, prepayments and depreciation reviewed" },
+];
+
+/**
+ * Month-end close checklist for one entity: ledger checks (balanced entries,
+ * counterparties on A/R and A/P, VAT settled at quarter end, withholding
+ * remitted) plus the manual items and whether they were ticked off.
+ */
+export function buildCloseChecklist(params: {
+  entity: Entity;
+  entries: JournalEntry[];
+  contacts: Contact[];
+  periodYYYYMM: string;
+}): ChecklistItem[] {
+  const { entity, entries, contacts, periodYYYYMM } = params;
+  const inPeriod = entries.filter((e) => e.entityId === entity.id && e.dateISO.slice(0, 7) === periodYYYYMM);
+  const items: ChecklistItem[] = [];
+
+  const unbalanced = inPeriod.filter((e) => !isBalancedEntry(e));
+  items.push({
+    id: "balanced",
+    label: "All entries balance",
+    auto: true,
+    ok: !unbalanced.length,
+    detail: unbalanced.length ? `${unbalanced.length} entries do not balance.` : undefined,
+  });
+
+  const unassigned = inPeriod.filter(
+    (e) => isActiveEntry(e) && !e.contactId && e.lines.some((l) => SUBLEDGER_ACCOUNTS.includes(l.account))
+  );
+  items.push({
+    id: "contacts",
+    label: "Receivables and payables assigned to contacts",
+    auto: true,
+    ok: !unassigned.length,
+    detail: unassigned.length ? `${unassigned.length} A/R or A/P entries have no contact.` : undefined,
+  });
+
+  const month = Number(periodYYYYMM.slice(5, 7));
+  if (month % 3 === 0) {
+    const quarter = { fromISO: `${addMonths(periodYYYYMM, -2)}-01`, toISO: monthEndISO(periodYYYYMM) };
+    const settled = entries.some(
+      (e) => e.entityId === entity.id && isActiveEntry(e) && e.memo === vatSettlementMemo(quarter)
+    );
+    const ret = buildVatReturn({ entries, entity, entityId: entity.id, ...quarter });
+    const ok = settled || (!ret.dueTax && !ret.recoverableTax);
+    items.push({
+      id: "vat",
+      label: "VAT return for the quarter settled",
+      auto: true,
+      ok,
+      detail: ok ? undefined : `No settlement for ${quarter.fromISO} – ${quarter.toISO} (Tax tab).`,
+    });
+  }
+
+  const wht = buildWithholdingReport({
+    entries,
+    entityId: entity.id,
+    contacts,
+    fromISO: `${periodYYYYMM}-01`,
+    toISO: monthEndISO(periodYYYYMM),
+  });
+  items.push({
+    id: "wht",
+    label: "Withholding tax remitted",
+    auto: true,
+    ok: wht.outstanding <= 0,
+    detail: wht.outstanding > 0 ? `${wht.outstanding.toFixed(2)} still in WHT Payable.` : undefined,
+  });
+
+  const ticked = entity.periods?.find((p) => p.periodYYYYMM === periodYYYYMM)?.checklist ?? {};
+  for (const m of MANUAL_ITEMS) items.push({ ...m, auto: false, ok: Boolean(ticked[m.id]) });
+
+  return items;
+}
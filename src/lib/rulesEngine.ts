@@ -0,0 +1,106 @@
+import type { CategoryRule, JournalEntry } from "./types";
+
+function makeId() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// What a rule is tested against: the segment text (or one split part's
+// category), the parsed counterparty and the amount.
+export type RuleSubject = {
+  text: string;
+  counterparty?: string;
+  amount?: number;
+};
+
+function inAmountRange(rule: CategoryRule, amount: number | undefined) {
+  if (rule.minAmount === undefined && rule.maxAmount === undefined) return true;
+  if (amount === undefined) return false;
+  if (rule.minAmount !== undefined && amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && amount > rule.maxAmount) return false;
+  return true;
+}
+
+export function ruleMatches(rule: CategoryRule, subject: RuleSubject): boolean {
+  if (!inAmountRange(rule, subject.amount)) return false;
+
+  const pattern = rule.pattern.trim();
+  switch (rule.match) {
+    case "keyword":
+      return Boolean(pattern) && new RegExp(`\\b${escapeRegExp(pattern)}\\b`, "i").test(subject.text);
+    case "regex":
+      if (!pattern) return false;
+      try {
+        return new RegExp(pattern, "i").test(subject.text);
+      } catch {
+        return false; // half-typed pattern in the editor
+      }
+    case "counterparty":
+      return Boolean(pattern) && (subject.counterparty ?? "").toLowerCase().includes(pattern.toLowerCase());
+    case "amount":
+      return rule.minAmount !== undefined || rule.maxAmount !== undefined;
+  }
+}
+
+/**
+ * First rule (in table order) that matches AND posts to an account in the chart.
+ * Without a chart every rule is considered usable.
+ */
+export function findCategoryRule(
+  rules: CategoryRule[] | undefined,
+  subject: RuleSubject,
+  isAllowedAccount: (name: string) => boolean
+): CategoryRule | null {
+  for (const rule of rules ?? []) {
+    if (!rule.account.trim() || !isAllowedAccount(rule.account)) continue;
+    if (ruleMatches(rule, subject)) return rule;
+  }
+  return null;
+}
+
+/**
+ * Reclassification -> rule. When the user moves the category line of a parsed
+ * entry to another account, remember it: keyword on the parsed category, else
+ * the counterparty. An existing rule for the same keyword/counterparty is
+ * re-pointed instead of duplicated; new rules go first so they win next time.
+ */
+export function learnRuleFromEdit(
+  before: JournalEntry,
+  after: JournalEntry,
+  rules: CategoryRule[] | undefined
+): CategoryRule[] | null {
+  const src = before.source;
+  if (!src?.account) return null;
+
+  const idx = before.lines.findIndex((l) => l.account === src.account);
+  const moved = idx >= 0 ? after.lines[idx] : undefined;
+  if (!moved || moved.account === src.account) return null;
+
+  const keyword = src.category?.trim().toLowerCase();
+  const counterparty = src.counterparty?.trim();
+  const match: CategoryRule["match"] | null = keyword ? "keyword" : counterparty ? "counterparty" : null;
+  if (!match) return null;
+  const pattern = (keyword || counterparty) as string;
+
+  const current = rules ?? [];
+  const existing = current.find(
+    (r) => r.match === match && r.pattern.trim().toLowerCase() === pattern.toLowerCase()
+  );
+  if (existing) {
+    return current.map((r) => (r.id === existing.id ? { ...r, account: moved.account, learned: true } : r));
+  }
+
+  const rule: CategoryRule = {
+    id: makeId(),
+    match,
+    pattern,
+    account: moved.account,
+    businessUnitId: after.businessUnitId,
+    vat: "default",
+    learned: true,
+  };
+  return [rule, ...current];
+}
@@ -1,12 +1,62 @@
-export type ActionKind = "borrow" | "lend" | "buy" | "sell" | "spend";
+export type ActionKind =
+  | "borrow"
+  | "lend"
+  | "buy"
+  | "sell"
+  | "spend"
+  // returns / refunds / credit notes (reverse sell / buy incl. VAT)
+  | "sales_return"
+  | "purchase_return"
+  // equity (owner funding and distributions)
+  | "contribute"
+  | "draw"
+  | "declare_dividend"
+  | "pay_dividend"
+  // cash <-> bank movements
+  | "transfer"
+  // settlements (clear open A/R, A/P and loans)
+  | "collect"
+  | "settle"
+  | "repay"
+  | "collect_loan";
 export type Currency = "AED" | "USD" | "EUR";
 
+// UAE VAT treatment of a line. Only standard and reverse_charge carry VAT.
+export type TaxCode = "standard" | "zero_rated" | "exempt" | "out_of_scope" | "reverse_charge";
+
+// Which VAT account a taxed line feeds: purchases -> Input VAT, sales -> Output VAT.
+export type TaxKind = "purchase" | "sale";
+
 export type JournalLine = {
   account: string;
   debit: number;
   credit: number;
+
+  // optional quantity breakdown ("3 laptops @ 1200")
+  quantity?: number;
+  unitPrice?: number;
+  unit?: string;
+
+  // VAT: set on revenue / expense lines and on the VAT lines generated from them
+  taxCode?: TaxCode;
+  taxKind?: TaxKind;
+  vatLine?: boolean; // generated Input / Output VAT; rebuilt by resplitTaxes
 };
 
+// What the parser read for an entry; lets a later reclassification learn a rule.
+export type EntrySource = {
+  text: string; // the input segment
+  category?: string; // parsed "on/for/of ..." text
+  counterparty?: string;
+  account?: string; // account the category was posted to
+  ruleId?: string; // categorisation rule that picked the account
+  withholdingRate?: number; // rate applied to the WHT Payable line; see withholdingEngine
+};
+
+// Saved entries are never edited in place: a correction reverses the entry and
+// posts a replacement, a delete voids it with a reversal (see corrections.ts).
+export type EntryStatus = "posted" | "reversed" | "void";
+
 export type JournalEntry = {
   id: string;
   dateISO: string;
@@ -14,7 +64,24 @@ export type JournalEntry = {
   currency: Currency;
   entityId: string;
   businessUnitId?: string;
+  contactId?: string; // counterparty from the directory; A/R and A/P lines go to its subledger
   lines: JournalLine[];
+  source?: EntrySource;
+  status?: EntryStatus; // unset: posted (entries saved before statuses existed)
+  postedAt?: string; // ISO timestamp it was saved to the ledger
+  reversalOf?: string; // this entry reverses that one
+  reversedBy?: string; // the entry that reverses this one
+  replaces?: string; // corrected replacement of that entry
+  replacedBy?: string;
+  lockOverride?: { reason: string; status: PeriodStatus }; // posted into a closed period anyway
+  redirectedFrom?: string; // date it was meant for, before it was moved out of a closed period
+  yearEndClose?: boolean; // zeroes income and expenses into retained earnings; left out of P&L reports
+};
+
+// One category of a split transaction ("600 rent" in "paid 900: 600 rent, ...")
+export type SplitPart = {
+  amount: number;
+  category?: string; // candidate account name (strict: only posted if allowed)
 };
 
 export type ParsedEvent = {
@@ -24,25 +91,153 @@ export type ParsedEvent = {
   currency?: Currency;
   counterparty?: string;
   item?: string;
+  quantity?: number;
+  unitPrice?: number;
+  unit?: string;
   expenseAccount?: string;
+  taxCode?: TaxCode; // stated in the text ("zero rated", "imported services")
+  withholdingRate?: number; // fraction withheld from the vendor ("less 5% WHT"); spend / buy only
+  splits?: SplitPart[]; // several debit (or revenue) lines, one payment
+  cashAccount?: string; // cash/bank side ("from ENBD"), transfer source
+  transferToAccount?: string; // transfer destination
   raw: string;
 };
 
+// -------------------------
+// Parser diagnostics
+// -------------------------
+export type ParsedField = "action" | "amount" | "date" | "currency" | "counterparty" | "category" | "cashAccount";
+
+export type ParseDiagnosticReason =
+  | "missing_action"
+  | "missing_amount"
+  | "split_unbalanced"
+  | "fallback_category"
+  | "unknown_cash_account"
+  | "no_entry"
+  | "invalid_event" // parser backend returned something that failed validation
+  | "parser_unavailable";
+
+// A chart account a parsed name could mean, best first.
+export type AccountCandidate = {
+  account: string;
+  score: number; // 0-1
+  via: "exact" | "synonym" | "fuzzy";
+};
+
+export type ParseDiagnostic = {
+  segment: string;
+  status: "ok" | "warning" | "skipped";
+  reasons: ParseDiagnosticReason[];
+  message?: string;
+
+  explicit: ParsedField[]; // found in the segment text
+  inferred: ParsedField[]; // carried from context / defaults
+  fallbackAccount?: string; // e.g. "Purchases / Expense"
+  suggestions?: AccountCandidate[]; // "did you mean ..." when no match was confident enough
+  entryId?: string; // entry built from this segment
+  confidence: number; // 0-1
+};
+
+// -------------------------
+// Clarifications
+// -------------------------
+
+// Fields the composer can ask the user for when a segment is incomplete.
+export type ClarificationField = "amount" | "category";
+
+// "How much was the rent?" / "Which account for 'team lunch'?"
+export type ClarificationQuestion = {
+  id: string; // stable for the same segment + field, so answers survive a re-run
+  segment: string;
+  field: ClarificationField;
+  question: string;
+  suggestions?: AccountCandidate[]; // category questions: best chart matches first
+};
+
+// question id -> the user's answer ("450", "Meals & Entertainment")
+export type ClarificationAnswers = Record<string, string>;
+
+// -------------------------
+// Parser backends
+// -------------------------
+
+// One input segment: the event it produced, or why it was skipped.
+export type ParsedSegment = {
+  segment: string;
+  event?: ParsedEvent;
+  partial?: ParsedEvent; // action found but incomplete (no amount); a clarification can finish it
+  reasons: ParseDiagnosticReason[];
+  message?: string;
+  spans?: TokenSpan[]; // where each field was read from; backends without offsets leave this out
+};
+
+// A parsed field's position in the composer text: [start, end) offsets.
+export type TokenSpan = {
+  field: ParsedField;
+  start: number;
+  end: number;
+};
+
+export type ParserContext = {
+  today: Date;
+  currency: Currency; // composer default
+  allowedAccounts?: string[];
+  accountSynonyms?: Record<string, string[]>;
+};
+
+// Turns free text into parsed events; generateEntriesFromText builds entries from them.
+export type TransactionParser = {
+  id: string;
+  label: string;
+  parse: (text: string, ctx: ParserContext) => ParsedSegment[] | Promise<ParsedSegment[]>;
+};
+
+export type ParserBackendConfig =
+  | { kind: "regex" }
+  | { kind: "openai"; baseUrl: string; model: string; apiKey?: string };
+
 export type AccountNormalSide = "debit" | "credit";
 
+// Statement an account reports in; inferred from the name when unset (see incomeStatement accountTypeOf).
+export type AccountType = "asset" | "liability" | "equity" | "income" | "expense";
+
 export type Account = {
   id: string;
   name: string;
   normalSide: AccountNormalSide;
   openingBalance: number; // +Dr / -Cr
+  synonyms?: string[]; // other names the parser should map here ("advertising")
+  taxCode?: TaxCode; // default for revenue / expense lines posted here
+  type?: AccountType;
+};
+
+// -------------------------
+// Contacts (counterparty directory)
+// -------------------------
+export type ContactKind = "customer" | "vendor" | "employee" | "related_entity";
+
+// Shared by all entities in the workspace; the parser resolves counterparty names and aliases to one.
+export type Contact = {
+  id: string;
+  name: string;
+  kind: ContactKind;
+  aliases?: string[]; // other names in text ("DEWA" for "Dubai Electricity & Water Authority")
+  entityId?: string; // related_entity: the group entity this contact is
+  paymentTermsDays?: number; // invoices fall due this many days after their date; see agingEngine
+  withholdingRate?: number; // fraction withheld from payments to this vendor unless the text says otherwise
 };
 
 // -------------------------
 // Entities + Business Units
 // -------------------------
+// Place of supply for the VAT return (VAT201 boxes 1a-1g).
+export type Emirate = "abu_dhabi" | "dubai" | "sharjah" | "ajman" | "umm_al_quwain" | "ras_al_khaimah" | "fujairah";
+
 export type BusinessUnit = {
   id: string;
   name: string;
+  emirate?: Emirate; // overrides the entity's emirate
 };
 
 export type ConsolidationMethod = "full" | "equity" | "none";
@@ -57,11 +252,76 @@ export type IntercompanyEliminationPolicy = {
   loanPayAccount: string; // e.g. "Intercompany Loan Payable"
 };
 
+// UAE corporate tax: adjustments from accounting profit to taxable income.
+export type CorporateTaxAdjustmentKind = "non_deductible" | "exempt_income";
+
+export type CorporateTaxAdjustment = {
+  id: string;
+  kind: CorporateTaxAdjustmentKind;
+  account?: string; // pct of the account's period movement; unset means a fixed amount
+  pct: number; // 0-100
+  amount?: number;
+  note?: string;
+};
+
+export type CorporateTaxPolicy = {
+  smallBusinessRelief: boolean; // elected; only applies while revenue stays within the limit
+  adjustments: CorporateTaxAdjustment[];
+};
+
 export type EntityPolicy = {
   ownershipPct: number; // 0-100
   method: ConsolidationMethod;
   functionalCurrency: Currency;
   intercompany: IntercompanyEliminationPolicy;
+  corporateTax?: CorporateTaxPolicy;
+};
+
+// -------------------------
+// Categorisation rules
+// -------------------------
+export type CategoryRuleMatch = "keyword" | "regex" | "counterparty" | "amount";
+
+export type VatTreatment = "default" | TaxCode;
+
+// Evaluated in order before the "Purchases / Expense" fallback; first match wins.
+export type CategoryRule = {
+  id: string;
+  match: CategoryRuleMatch;
+  pattern: string; // keyword, regex source or counterparty name (unused for "amount")
+  minAmount?: number; // optional range, also narrows the other match kinds
+  maxAmount?: number;
+
+  account: string; // strict: rule is ignored if the account is not in the chart
+  businessUnitId?: string;
+  vat: VatTreatment;
+
+  learned?: boolean; // created from a reclassification
+};
+
+// -------------------------
+// Period close
+// -------------------------
+
+// soft_closed: posting needs an override with a reason; hard_closed: nothing is posted.
+export type PeriodStatus = "open" | "soft_closed" | "hard_closed";
+
+export type PeriodClose = {
+  periodYYYYMM: string;
+  status: PeriodStatus;
+  changedAt?: string; // ISO timestamp of the last status change
+  changedBy?: string;
+  checklist?: Record<string, boolean>; // manual close-checklist items ticked off
+};
+
+export type YearEndClose = {
+  fromISO: string;
+  toISO: string;
+  netIncome: number; // closed into retained earnings; negative is a loss
+  entryId?: string; // the posted closing entry; absent for a virtual (reporting only) close
+  openingBalances: Record<string, number>; // balance-sheet accounts the day after, +Dr / -Cr
+  closedAt: string;
+  closedBy?: string;
 };
 
 export type Entity = {
@@ -70,6 +330,12 @@ export type Entity = {
   baseCurrency: Currency;
   businessUnits: BusinessUnit[];
   policy: EntityPolicy;
+  defaultCashAccount?: string; // composer cash/bank side; falls back to "Cash"
+  categoryRules?: CategoryRule[];
+  emirate?: Emirate; // where standard-rated sales are reported; defaults to Dubai
+  periods?: PeriodClose[]; // months that were closed; any other month is open
+  lockDateISO?: string; // nothing can be posted on or before this date
+  yearEndCloses?: YearEndClose[]; // removed again when the year is reopened
 };
 
 export type ComposerState = {
@@ -84,6 +350,9 @@ export type ComposerState = {
 
   entityId: string;
   businessUnitId?: string;
+
+  parser?: ParserBackendConfig; // defaults to the built-in regex parser
+  actor?: string; // name recorded on audit events
 };
 
 // -------------------------
@@ -131,3 +400,31 @@ export type Liability = {
   interestExpenseAccount: string; // e.g. "Interest Expense"
   cashAccount: string; // e.g. "Cash"
 };
+
+// -------------------------
+// Audit trail
+// -------------------------
+
+export type AuditObjectKind = "entry" | "account" | "entity" | "asset" | "liability" | "contact";
+
+export type AuditAction = "create" | "update" | "delete";
+
+// One top-level field of the object; values are JSON snapshots.
+export type AuditFieldChange = {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type AuditEvent = {
+  id: string;
+  at: string; // ISO timestamp
+  actor: string;
+  action: AuditAction;
+  object: AuditObjectKind;
+  objectId: string;
+  entityId?: string; // entity the object belongs to (the entity itself for "entity")
+  label: string; // memo / name when the change was made
+  changes: AuditFieldChange[];
+  reason?: string; // given for posting into a closed period
+};
@@ -0,0 +1,187 @@
+import type { Currency, Emirate, Entity, JournalEntry, JournalLine } from "./types";
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function makeId() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+export const EMIRATES: { id: Emirate; label: string; box: string }[] = [
+  { id: "abu_dhabi", label: "Abu Dhabi", box: "1a" },
+  { id: "dubai", label: "Dubai", box: "1b" },
+  { id: "sharjah", label: "Sharjah", box: "1c" },
+  { id: "ajman", label: "Ajman", box: "1d" },
+  { id: "umm_al_quwain", label: "Umm Al Quwain", box: "1e" },
+  { id: "ras_al_khaimah", label: "Ras Al Khaimah", box: "1f" },
+  { id: "fujairah", label: "Fujairah", box: "1g" },
+];
+
+export const VAT_PAYABLE_ACCOUNT = "VAT Payable";
+
+// One VAT201 box: net amount, VAT and the entries it was built from (for drill-down).
+export type VatBox = {
+  box: string;
+  label: string;
+  amount: number;
+  vat: number;
+  entryIds: string[];
+};
+
+export type VatReturn = {
+  entityId: string;
+  fromISO: string;
+  toISO: string;
+  currency: Currency;
+  sales: VatBox[]; // 1a-1g, 3, 4, 5 and the box 8 total
+  expenses: VatBox[]; // 9, 10 and the box 11 total
+  dueTax: number; // box 12
+  recoverableTax: number; // box 13
+  netPayable: number; // box 14; negative is a refund
+  foreignEntryIds: string[]; // taken at face value: no FX rates in the ledger
+};
+
+function box(code: string, label: string): VatBox {
+  return { box: code, label, amount: 0, vat: 0, entryIds: [] };
+}
+
+function add(b: VatBox, entryId: string, amount: number, vat: number) {
+  b.amount = round2(b.amount + amount);
+  b.vat = round2(b.vat + vat);
+  if (!b.entryIds.includes(entryId)) b.entryIds.push(entryId);
+}
+
+function total(code: string, label: string, boxes: VatBox[]): VatBox {
+  const t = box(code, label);
+  for (const b of boxes) {
+    t.amount = round2(t.amount + b.amount);
+    t.vat = round2(t.vat + b.vat);
+    for (const id of b.entryIds) if (!t.entryIds.includes(id)) t.entryIds.push(id);
+  }
+  return t;
+}
+
+function emirateOf(entity: Entity | undefined, businessUnitId: string | undefined): Emirate {
+  const bu = entity?.businessUnits.find((b) => b.id === businessUnitId);
+  return bu?.emirate ?? entity?.emirate ?? "dubai";
+}
+
+// Net movement of a line in its natural direction: credits for sales, debits for purchases.
+function net(l: JournalLine, kind: "sale" | "purchase") {
+  return kind === "sale" ? l.credit - l.debit : l.debit - l.credit;
+}
+
+/**
+ * FTA VAT201 return for one entity over an inclusive date range, read from
+ * the tax codes on journal lines (see journalEngine taxedLines). Base lines
+ * give the box amounts, the generated Input / Output VAT lines the tax, so an
+ * edited VAT line is reported as posted. Returns and credit notes net off.
+ */
+export function buildVatReturn(params: {
+  entries: JournalEntry[];
+  entity: Entity | undefined;
+  entityId: string;
+  fromISO: string;
+  toISO: string;
+}): VatReturn {
+  const { entries, entity, entityId, fromISO, toISO } = params;
+
+  const byEmirate = new Map(EMIRATES.map((e) => [e.id, box(e.box, `Standard rated supplies in ${e.label}`)]));
+  const reverseCharge = box("3", "Supplies subject to the reverse charge");
+  const zeroRated = box("4", "Zero rated supplies");
+  const exempt = box("5", "Exempt supplies");
+  const standardExpenses = box("9", "Standard rated expenses");
+  const reverseChargeExpenses = box("10", "Supplies subject to the reverse charge");
+  const foreignEntryIds: string[] = [];
+
+  for (const e of entries) {
+    if (e.entityId !== entityId || e.dateISO < fromISO || e.dateISO > toISO) continue;
+    if (!e.lines.some((l) => l.taxCode)) continue;
+    if (e.currency !== "AED") foreignEntryIds.push(e.id);
+
+    const supplies = byEmirate.get(emirateOf(entity, e.businessUnitId))!;
+
+    for (const l of e.lines) {
+      if (!l.taxCode) continue;
+      const kind = l.taxKind ?? (l.credit > l.debit ? "sale" : "purchase");
+      const amount = net(l, kind);
+
+      if (l.vatLine) {
+        if (l.taxCode === "reverse_charge") {
+          // self-assessed: Output VAT is due in box 3, Input VAT recovered in box 10
+          if (l.account === "Output VAT") add(reverseCharge, e.id, 0, l.credit - l.debit);
+          else add(reverseChargeExpenses, e.id, 0, l.debit - l.credit);
+        } else if (l.taxCode === "standard") {
+          add(kind === "sale" ? supplies : standardExpenses, e.id, 0, amount);
+        }
+        continue;
+      }
+
+      if (kind === "sale") {
+        if (l.taxCode === "standard") add(supplies, e.id, amount, 0);
+        else if (l.taxCode === "zero_rated") add(zeroRated, e.id, amount, 0);
+        else if (l.taxCode === "exempt") add(exempt, e.id, amount, 0);
+      } else if (l.taxCode === "standard") {
+        add(standardExpenses, e.id, amount, 0);
+      } else if (l.taxCode === "reverse_charge") {
+        add(reverseCharge, e.id, amount, 0);
+        add(reverseChargeExpenses, e.id, amount, 0);
+      }
+    }
+  }
+
+  const salesBoxes = [...byEmirate.values(), reverseCharge, zeroRated, exempt];
+  const expenseBoxes = [standardExpenses, reverseChargeExpenses];
+  const salesTotal = total("8", "Totals", salesBoxes);
+  const expenseTotal = total("11", "Totals", expenseBoxes);
+
+  return {
+    entityId,
+    fromISO,
+    toISO,
+    currency: "AED",
+    sales: [...salesBoxes, salesTotal],
+    expenses: [...expenseBoxes, expenseTotal],
+    dueTax: salesTotal.vat,
+    recoverableTax: expenseTotal.vat,
+    netPayable: round2(salesTotal.vat - expenseTotal.vat),
+    foreignEntryIds,
+  };
+}
+
+// Positive amounts debit the account, negative ones credit it.
+function debitLine(account: string, amount: number): JournalLine | null {
+  const n = round2(amount);
+  if (!n) return null;
+  return n > 0 ? { account, debit: n, credit: 0 } : { account, debit: 0, credit: -n };
+}
+
+/**
+ * Closes the period's VAT into the liability to the FTA: Dr Output VAT (box
+ * 12), Cr Input VAT (box 13), the difference to VAT Payable (a debit balance
+ * there is a refund due). Lines carry no tax code so the next return ignores them.
+ */
+export function buildVatSettlementEntry(ret: VatReturn, dateISO: string): JournalEntry | null {
+  if (!ret.dueTax && !ret.recoverableTax) return null;
+
+  const lines = [
+    debitLine("Output VAT", ret.dueTax),
+    debitLine("Input VAT", -ret.recoverableTax),
+    debitLine(VAT_PAYABLE_ACCOUNT, -ret.netPayable),
+  ].filter((l): l is JournalLine => l !== null);
+
+  return {
+    id: makeId(),
+    dateISO,
+    memo: vatSettlementMemo(ret),
+    currency: ret.currency,
+    entityId: ret.entityId,
+    lines,
+  };
+}
+
+// Also used to spot a return that was already settled.
+export function vatSettlementMemo(ret: Pick<VatReturn, "fromISO" | "toISO">) {
+  return `VAT return settlement ${ret.fromISO} – ${ret.toISO}`;
+}
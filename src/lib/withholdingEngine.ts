@@ -0,0 +1,123 @@
+import type { Contact, Entity, JournalEntry } from "./types";
+import { counterpartyOf } from "./contacts";
+import { isReversedPair } from "./corrections";
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function makeId() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+export const WHT_PAYABLE_ACCOUNT = "WHT Payable";
+
+// Tax withheld from one vendor in one month.
+export type WithholdingRow = {
+  contactId?: string;
+  name: string; // contact name, or the parsed counterparty text
+  period: string; // YYYY-MM
+  gross: number; // vendor amount before VAT the tax was withheld from
+  withheld: number;
+  rates: number[]; // distinct rates applied, as fractions
+  entryIds: string[];
+};
+
+export type WithholdingReport = {
+  entityId: string;
+  fromISO: string;
+  toISO: string;
+  rows: WithholdingRow[];
+  withheld: number; // credited to WHT Payable in the range
+  remitted: number; // debited to WHT Payable in the range
+  outstanding: number; // WHT Payable balance at toISO, all dates
+};
+
+/**
+ * Withholding tax for one entity over an inclusive date range, read from the
+ * WHT Payable lines: credits are tax held back from vendors (grouped by
+ * counterparty and month), debits are remittances. Reversed pairs are
+ * skipped. The outstanding balance is what a settlement would clear.
+ */
+export function buildWithholdingReport(params: {
+  entries: JournalEntry[];
+  entityId: string;
+  contacts: Contact[];
+  fromISO: string;
+  toISO: string;
+}): WithholdingReport {
+  const { entries, entityId, contacts, fromISO, toISO } = params;
+  const byId = new Map(contacts.map((c) => [c.id, c]));
+  const rows = new Map<string, WithholdingRow>();
+  let withheld = 0;
+  let remitted = 0;
+  let outstanding = 0;
+
+  for (const e of entries) {
+    // a voided or corrected entry and its reversal net to zero: neither was withheld nor remitted
+    if (e.entityId !== entityId || e.dateISO > toISO || isReversedPair(e)) continue;
+    const whtLines = e.lines.filter((l) => l.account === WHT_PAYABLE_ACCOUNT);
+    if (!whtLines.length) continue;
+
+    const credit = round2(whtLines.reduce((s, l) => s + (l.credit || 0), 0));
+    const debit = round2(whtLines.reduce((s, l) => s + (l.debit || 0), 0));
+    outstanding = round2(outstanding + credit - debit);
+    if (e.dateISO < fromISO) continue;
+    withheld = round2(withheld + credit);
+    remitted = round2(remitted + debit);
+    if (!credit) continue;
+
+    const who = counterpartyOf(e, byId);
+    const period = e.dateISO.slice(0, 7);
+    const key = `${who.key}|${period}`;
+    const row = rows.get(key) ?? {
+      contactId: who.contact?.id,
+      name: who.name,
+      period,
+      gross: 0,
+      withheld: 0,
+      rates: [],
+      entryIds: [],
+    };
+    const gross = e.lines
+      .filter((l) => !l.vatLine && l.account !== WHT_PAYABLE_ACCOUNT)
+      .reduce((s, l) => s + (l.debit || 0), 0);
+    row.gross = round2(row.gross + gross);
+    row.withheld = round2(row.withheld + credit);
+    const rate = e.source?.withholdingRate;
+    if (rate && !row.rates.includes(rate)) row.rates.push(rate);
+    row.entryIds.push(e.id);
+    rows.set(key, row);
+  }
+
+  return {
+    entityId,
+    fromISO,
+    toISO,
+    rows: Array.from(rows.values()).sort((a, b) => a.period.localeCompare(b.period) || b.withheld - a.withheld),
+    withheld,
+    remitted,
+    outstanding,
+  };
+}
+
+/** Remittance of the outstanding WHT Payable to the authority: Dr WHT Payable, Cr the entity's cash account. */
+export function buildWithholdingSettlementEntry(report: WithholdingReport, entity: Entity): JournalEntry | null {
+  if (report.outstanding <= 0) return null;
+  return {
+    id: makeId(),
+    dateISO: report.toISO,
+    memo: withholdingSettlementMemo(report),
+    currency: entity.policy.functionalCurrency,
+    entityId: entity.id,
+    lines: [
+      { account: WHT_PAYABLE_ACCOUNT, debit: report.outstanding, credit: 0 },
+      { account: entity.defaultCashAccount || "Cash", debit: 0, credit: report.outstanding },
+    ],
+  };
+}
+
+// Also used to spot a period that was already remitted.
+export function withholdingSettlementMemo(report: Pick<WithholdingReport, "fromISO" | "toISO">) {
+  return `WHT remittance ${report.fromISO} – ${report.toISO}`;
+}
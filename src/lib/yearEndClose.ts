@@ -0,0 +1,143 @@
+import type { Account, Entity, JournalEntry, JournalLine, YearEndClose } from "./types";
+import { computeBalances } from "./journalEngine";
+import { accountTypeOf } from "./incomeStatement";
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function makeId() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+export const RETAINED_EARNINGS_ACCOUNT = "Retained Earnings";
+
+function nextDayISO(dateISO: string) {
+  const [y, m, d] = dateISO.split("-").map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + 1));
+  return next.toISOString().slice(0, 10);
+}
+
+export type YearEndCloseRow = {
+  account: string;
+  type: "income" | "expense";
+  balance: number; // +Dr / -Cr, as computeBalances reports it
+};
+
+export type YearEndClosePlan = {
+  fromISO: string;
+  toISO: string;
+  rows: YearEndCloseRow[]; // income and expense accounts with a balance to close
+  netIncome: number; // negative is a loss
+  lines: JournalLine[]; // the closing entry: each row reversed, the difference to retained earnings
+  openingDateISO: string; // first day of the next year
+  openingBalances: Record<string, number>; // balance-sheet accounts, retained earnings after the close
+};
+
+/**
+ * Year-end close for one entity: income and expense balances of the year
+ * (movements only; earlier closes and opening balances of these accounts are
+ * left out) and the entry zeroing them into Retained Earnings. Opening
+ * balances for the next year come from all entries up to the year end, with
+ * every income and expense balance folded into retained earnings.
+ */
+export function computeYearEndClose(params: {
+  entity: Entity;
+  accounts: Account[];
+  entries: JournalEntry[];
+  fromISO: string;
+  toISO: string;
+}): YearEndClosePlan {
+  const { entity, accounts, entries, fromISO, toISO } = params;
+  const own = entries.filter((e) => e.entityId === entity.id && e.dateISO <= toISO);
+  const typeOf = (name: string) =>
+    accountTypeOf(accounts.find((a) => a.name === name) ?? { name, normalSide: "debit" });
+  // only accounts typed or named as income / expense; unrecognised names (bank accounts) are balance sheet
+  const isProfitAndLoss = (name: string) => {
+    const t = typeOf(name);
+    return t === "income" || t === "expense";
+  };
+
+  const year = computeBalances(
+    accounts.map((a) => ({ ...a, openingBalance: 0 })),
+    own.filter((e) => e.dateISO >= fromISO && !e.yearEndClose)
+  ).closing;
+  const rows: YearEndCloseRow[] = Object.entries(year)
+    .filter(([account, balance]) => isProfitAndLoss(account) && Math.abs(balance) >= 0.005)
+    .map(([account, balance]) => ({ account, type: typeOf(account) as YearEndCloseRow["type"], balance }))
+    .sort((a, b) => (a.type === b.type ? 0 : a.type === "income" ? -1 : 1) || a.account.localeCompare(b.account));
+  const netIncome = round2(-rows.reduce((s, r) => s + r.balance, 0));
+
+  const lines: JournalLine[] = rows.map((r) => ({
+    account: r.account,
+    debit: r.balance < 0 ? -r.balance : 0,
+    credit: r.balance > 0 ? r.balance : 0,
+  }));
+  if (netIncome) {
+    lines.push({
+      account: RETAINED_EARNINGS_ACCOUNT,
+      debit: netIncome < 0 ? -netIncome : 0,
+      credit: netIncome > 0 ? netIncome : 0,
+    });
+  }
+
+  // closing entries only move amounts between P&L and retained earnings, so they can stay in
+  const { closing } = computeBalances(accounts, own);
+  const openingBalances: Record<string, number> = {};
+  let retained = closing[RETAINED_EARNINGS_ACCOUNT] ?? 0;
+  for (const [account, balance] of Object.entries(closing)) {
+    if (isProfitAndLoss(account)) retained = round2(retained + balance);
+    else if (account !== RETAINED_EARNINGS_ACCOUNT && Math.abs(balance) >= 0.005) openingBalances[account] = balance;
+  }
+  if (Math.abs(retained) >= 0.005) openingBalances[RETAINED_EARNINGS_ACCOUNT] = retained;
+
+  return { fromISO, toISO, rows, netIncome, lines, openingDateISO: nextDayISO(toISO), openingBalances };
+}
+
+/** The closing entry, dated on the last day of the year; null when there is nothing to close. */
+export function buildYearEndCloseEntry(plan: YearEndClosePlan, entity: Entity): JournalEntry | null {
+  if (!plan.rows.length) return null;
+  return {
+    id: makeId(),
+    dateISO: plan.toISO,
+    memo: yearEndCloseMemo(plan),
+    currency: entity.policy.functionalCurrency,
+    entityId: entity.id,
+    lines: plan.lines,
+    yearEndClose: true,
+  };
+}
+
+export function yearEndCloseMemo(plan: Pick<YearEndClosePlan, "fromISO" | "toISO">) {
+  return `Year-end close ${plan.fromISO} – ${plan.toISO}`;
+}
+
+/**
+ * computeBalances for one entity, carried forward from its latest year-end
+ * close (posted or virtual): that close's opening balances, with income and
+ * expenses already in retained earnings, plus the entries after it. Entries
+ * back-dated into a closed year after the close are left out; reopen and
+ * close the year again to pick them up. Without a close this is
+ * computeBalances over all the entity's entries.
+ */
+export function carriedForwardBalances(params: {
+  entity: Entity | undefined;
+  accounts: Account[];
+  entries: JournalEntry[];
+}): { opening: Record<string, number>; closing: Record<string, number> } {
+  const { entity, accounts, entries } = params;
+  const own = entity ? entries.filter((e) => e.entityId === entity.id) : entries;
+  const last = (entity?.yearEndCloses ?? []).reduce<YearEndClose | null>(
+    (latest, c) => (!latest || c.toISO > latest.toISO ? c : latest),
+    null
+  );
+  if (!last) return computeBalances(accounts, own);
+
+  const carried: Account[] = accounts.map((a) => ({ ...a, openingBalance: last.openingBalances[a.name] ?? 0 }));
+  for (const [name, balance] of Object.entries(last.openingBalances)) {
+    if (!accounts.some((a) => a.name === name)) {
+      carried.push({ id: name, name, normalSide: balance < 0 ? "credit" : "debit", openingBalance: balance });
+    }
+  }
+  return computeBalances(carried, own.filter((e) => e.dateISO > last.toISO));
+}